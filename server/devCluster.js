@@ -0,0 +1,59 @@
+import { spawn } from 'child_process';
+import { createInterface } from 'readline';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { RedisMemoryServer } from 'redis-memory-server';
+import { logger } from './logger.js';
+
+// Local multi-instance setup: two server processes sharing rooms through Redis.
+// Without REDIS_URL, a throwaway redis-memory-server stands in for Redis (its first run
+// downloads and compiles redis-server, which needs `make`). Run `npm run build` first so
+// both servers have a client to serve.
+//
+//   CLUSTER_PORTS  comma-separated ports, one server process each (default: 3001,3002)
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const ports = (process.env.CLUSTER_PORTS || '3001,3002').split(',').map(port => port.trim()).filter(Boolean);
+
+let redisServer = null;
+let redisUrl = process.env.REDIS_URL;
+if (!redisUrl) {
+  redisServer = new RedisMemoryServer();
+  redisUrl = `redis://${await redisServer.getHost()}:${await redisServer.getPort()}`;
+  logger.info('Started Redis stand-in', { redisUrl });
+}
+
+// Each line is prefixed with the instance's port so the two logs can be told apart
+function pipeWithPrefix(stream, target, prefix) {
+  createInterface({ input: stream }).on('line', line => target.write(`${prefix} ${line}\n`));
+}
+
+const children = ports.map(port => {
+  const child = spawn(process.execPath, [path.join(__dirname, 'index.js')], {
+    env: { LOG_FORMAT: 'pretty', ...process.env, PORT: port, REDIS_URL: redisUrl },
+    stdio: ['ignore', 'pipe', 'pipe']
+  });
+  pipeWithPrefix(child.stdout, process.stdout, `[${port}]`);
+  pipeWithPrefix(child.stderr, process.stderr, `[${port}]`);
+  child.on('exit', (code, signal) => logger.info('Server process exited', { port, code, signal }));
+  return child;
+});
+
+logger.info('Cluster running; join the same room code through each port', {
+  urls: ports.map(port => `http://localhost:${port}`)
+});
+
+async function shutdown() {
+  children.forEach(child => child.kill('SIGTERM'));
+  await Promise.all(children.map(child =>
+    child.exitCode === null && child.signalCode === null
+      ? new Promise(resolve => child.once('exit', resolve))
+      : null
+  ));
+  await redisServer?.stop();
+  process.exit(0);
+}
+
+process.once('SIGINT', shutdown);
+process.once('SIGTERM', shutdown);
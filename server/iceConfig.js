@@ -0,0 +1,52 @@
+import { createHmac, randomBytes } from 'crypto';
+import { logger } from './logger.js';
+
+// ICE servers handed to clients by GET /api/ice-config, built from server-side config:
+//
+//   STUN_URLS                     comma-separated STUN URLs (default: Google's public STUN servers; empty disables STUN)
+//   TURN_URLS                     comma-separated turn:/turns: URLs of our own relay, e.g. coturn
+//   TURN_SECRET                   shared secret for TURN REST API credentials (coturn: use-auth-secret + static-auth-secret)
+//   TURN_USERNAME/TURN_CREDENTIAL fixed credentials for relays without the REST API
+//   TURN_CREDENTIAL_TTL_SECONDS   lifetime of REST API credentials (default: 3600)
+//   ICE_TRANSPORT_POLICY          "relay" makes every client send media through TURN (default: all)
+
+const split = (value) => value.split(',').map(entry => entry.trim()).filter(Boolean);
+
+const STUN_URLS = process.env.STUN_URLS !== undefined
+  ? split(process.env.STUN_URLS)
+  : ['stun:stun.l.google.com:19302', 'stun:stun1.l.google.com:19302'];
+const TURN_URLS = split(process.env.TURN_URLS ?? '');
+const TURN_CREDENTIAL_TTL = Number(process.env.TURN_CREDENTIAL_TTL_SECONDS) || 3600;
+const ICE_TRANSPORT_POLICY = process.env.ICE_TRANSPORT_POLICY === 'relay' ? 'relay' : 'all';
+
+if (TURN_URLS.length > 0 && !process.env.TURN_SECRET && !process.env.TURN_USERNAME) {
+  logger.warn('TURN_URLS is set without TURN_SECRET or TURN_USERNAME; TURN servers will not be offered');
+}
+if (ICE_TRANSPORT_POLICY === 'relay' && TURN_URLS.length === 0) {
+  logger.warn('ICE_TRANSPORT_POLICY is relay but no TURN_URLS are configured; calls cannot connect');
+}
+
+// TURN REST API credentials: the username carries its own expiry and the relay recomputes
+// the HMAC with the same secret, so nothing has to be stored or revoked on either side
+export function turnRestCredentials(secret, label, ttlSeconds, now = Date.now()) {
+  const expiry = Math.floor(now / 1000) + ttlSeconds;
+  const username = `${expiry}:${label}`;
+  const credential = createHmac('sha1', secret).update(username).digest('base64');
+  return { username, credential, expiresAt: expiry * 1000 };
+}
+
+export function buildIceConfig() {
+  const iceServers = STUN_URLS.length > 0 ? [{ urls: STUN_URLS }] : [];
+  let expiresAt = null;
+
+  if (TURN_URLS.length > 0 && process.env.TURN_SECRET) {
+    // The label only keeps usernames distinct; the relay checks nothing but the HMAC and expiry
+    const turn = turnRestCredentials(process.env.TURN_SECRET, randomBytes(8).toString('hex'), TURN_CREDENTIAL_TTL);
+    iceServers.push({ urls: TURN_URLS, username: turn.username, credential: turn.credential });
+    expiresAt = turn.expiresAt;
+  } else if (TURN_URLS.length > 0 && process.env.TURN_USERNAME) {
+    iceServers.push({ urls: TURN_URLS, username: process.env.TURN_USERNAME, credential: process.env.TURN_CREDENTIAL ?? '' });
+  }
+
+  return { iceServers, iceTransportPolicy: ICE_TRANSPORT_POLICY, expiresAt };
+}
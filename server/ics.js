@@ -0,0 +1,59 @@
+// Minimal iCalendar (RFC 5545) writer for meeting invites
+
+const RECURRENCE_RULES = {
+  daily: 'FREQ=DAILY',
+  weekly: 'FREQ=WEEKLY'
+};
+
+// 20260105T090000Z
+function formatDate(timestamp) {
+  return new Date(timestamp).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeText(text) {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets are folded onto continuation lines starting with a space
+function foldLine(line) {
+  const parts = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char) > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+export function buildInvite({ uid, title, description, url, startsAt, durationMinutes, recurrence, createdAt }) {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//VideoMeet//Meeting Invite//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'BEGIN:VEVENT',
+    `UID:${uid}`,
+    `DTSTAMP:${formatDate(createdAt)}`,
+    `DTSTART:${formatDate(startsAt)}`,
+    `DTEND:${formatDate(startsAt + durationMinutes * 60 * 1000)}`,
+    `SUMMARY:${escapeText(title)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `URL:${url}`,
+    `LOCATION:${escapeText(url)}`
+  ];
+  if (RECURRENCE_RULES[recurrence]) {
+    lines.push(`RRULE:${RECURRENCE_RULES[recurrence]}`);
+  }
+  lines.push('END:VEVENT', 'END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -1,25 +1,413 @@
 import express from 'express';
 import { createServer } from 'http';
 import { Server } from 'socket.io';
+import { createAdapter } from '@socket.io/redis-adapter';
+import { createClient } from 'redis';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import {
+  ACK_SCHEMAS,
+  CLIENT_EVENT_SCHEMAS,
+  LIMITS,
+  isValidRoomId,
+  normalizeUserName,
+  validateApiRequest,
+  validateClientEvent
+} from '../shared/protocol.js';
+import { generateRoomCode } from './roomCodes.js';
+import { createMeetingStore } from './meetingStore.js';
+import { createMemoryRoomStore } from './roomStore.js';
+import { createRedisRoomStore } from './redisRoomStore.js';
+import { buildInvite } from './ics.js';
+import { buildIceConfig } from './iceConfig.js';
+import { createRateLimiter } from './rateLimit.js';
+import * as metrics from './metrics.js';
+import { logger } from './logger.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+// --- Abuse protection ---
+
+// Browser origins allowed to connect, comma-separated; any origin is accepted when unset
+const ALLOWED_ORIGINS = process.env.ALLOWED_ORIGINS
+  ? process.env.ALLOWED_ORIGINS.split(',').map(origin => origin.trim()).filter(Boolean)
+  : null;
+
+// Largest socket message accepted; SDP offers are the biggest legitimate payloads
+const MAX_PAYLOAD_BYTES = Number(process.env.MAX_PAYLOAD_BYTES) || 128 * 1024;
+
+// Number of proxies in front of the server whose X-Forwarded-For entries can be trusted
+const TRUST_PROXY_HOPS = Number(process.env.TRUST_PROXY_HOPS) || 0;
+
+// The per-IP limits below key on clientIp(). Behind a proxy, leaving TRUST_PROXY_HOPS at 0 makes every
+// client share the proxy's address, so the limits would cap the whole deployment.
+const MAX_CONNECTIONS_PER_IP = Number(process.env.MAX_CONNECTIONS_PER_IP) || 20;
+
+// Rooms opened from one address (through the API or `create`) that may be open at once
+const MAX_ROOMS_PER_IP = Number(process.env.MAX_ROOMS_PER_IP) || 5;
+
+// Per-socket event budgets. Every event counts against '*'; the others are tighter budgets for single events.
+// A socket that goes over any of them is disconnected.
+const SOCKET_EVENT_LIMITS = {
+  '*': createRateLimiter({ limit: 300, windowMs: 10 * 1000 }),
+  'join-room': createRateLimiter({ limit: 10, windowMs: 60 * 1000 }),
+  'offer': createRateLimiter({ limit: 60, windowMs: 10 * 1000 }),
+  'chat-message': createRateLimiter({ limit: 20, windowMs: 10 * 1000 })
+};
+
+// Per-IP budgets shared by all of an address's sockets and HTTP requests
+const IP_LIMITS = {
+  connections: createRateLimiter({ limit: 30, windowMs: 60 * 1000 }),
+  joins: createRateLimiter({ limit: 30, windowMs: 60 * 1000 }),
+  apiReads: createRateLimiter({ limit: 120, windowMs: 60 * 1000 }),
+  apiWrites: createRateLimiter({ limit: 20, windowMs: 60 * 1000 })
+};
+
+// Open sockets per client address on this process
+const connectionsPerIp = new Map();
+
+// Matches Express's `trust proxy` hop count, so sockets and HTTP requests see the same address
+function clientIp(headers, remoteAddress) {
+  const forwarded = String(headers['x-forwarded-for'] ?? '').split(',').map(entry => entry.trim()).filter(Boolean);
+  if (TRUST_PROXY_HOPS > 0 && forwarded.length >= TRUST_PROXY_HOPS) {
+    return forwarded[forwarded.length - TRUST_PROXY_HOPS];
+  }
+  return remoteAddress;
+}
+
 const app = express();
+app.set('trust proxy', TRUST_PROXY_HOPS);
 const server = createServer(app);
+/** @type {import('socket.io').Server<import('../shared/protocol').ClientToServerEvents, import('../shared/protocol').ServerToClientEvents>} */
 const io = new Server(server, {
   cors: {
-    origin: "*",
+    origin: ALLOWED_ORIGINS ?? "*",
     methods: ["GET", "POST"]
   },
+  maxHttpBufferSize: MAX_PAYLOAD_BYTES,
+  // CORS doesn't apply to WebSocket upgrades, so the allow-list is enforced here too.
+  // Clients that send no Origin at all aren't browsers and are left to the rate limits.
+  allowRequest: (req, callback) => {
+    const { origin } = req.headers;
+    if (ALLOWED_ORIGINS && origin && !ALLOWED_ORIGINS.includes(origin)) {
+      logger.warn('Refused connection from disallowed origin', { origin, ip: clientIp(req.headers, req.socket.remoteAddress) });
+      metrics.abuseViolations.inc({ kind: 'origin' });
+      callback('Origin not allowed', false);
+      return;
+    }
+    callback(null, true);
+  },
   pingTimeout: 60000,
   pingInterval: 25000,
   upgradeTimeout: 30000,
   allowUpgrades: true
 });
 
+// Engine.IO drops a connection whose message goes over MAX_PAYLOAD_BYTES without reporting why.
+// A long-polling upload is answered with 413 here; WebSocket overruns are caught on disconnect.
+server.on('request', (req) => {
+  if (req.method === 'POST' && req.url.startsWith('/socket.io/') && Number(req.headers['content-length']) > MAX_PAYLOAD_BYTES) {
+    logger.warn('Refused socket message over the payload limit', {
+      ip: clientIp(req.headers, req.socket.remoteAddress),
+      bytes: Number(req.headers['content-length']),
+      maxBytes: MAX_PAYLOAD_BYTES
+    });
+    metrics.abuseViolations.inc({ kind: 'payload-size' });
+  }
+});
+
+// The ws library closes an oversized WebSocket frame with this error
+function isPayloadTooLarge(description) {
+  return description instanceof Error && description.message.includes('Max payload size exceeded');
+}
+
+io.use((socket, next) => {
+  const ip = clientIp(socket.handshake.headers, socket.handshake.address);
+  const open = connectionsPerIp.get(ip) ?? 0;
+  if (open >= MAX_CONNECTIONS_PER_IP || !IP_LIMITS.connections.hit(ip)) {
+    logger.warn('Refused connection over the per-IP limit', { ip, open });
+    metrics.abuseViolations.inc({ kind: 'connection-limit' });
+    next(new Error('Too many connections'));
+    return;
+  }
+  socket.data.ip = ip;
+  connectionsPerIp.set(ip, open + 1);
+  next();
+});
+
+// Room state lives in the process unless REDIS_URL is set. With Redis, rooms are shared
+// and Socket.IO events are relayed between processes, so several servers can host one room.
+const SHARED_ROOM_STATE = Boolean(process.env.REDIS_URL);
+
+// A process that crashes can't clean up its shared rooms. Live processes refresh the rooms they
+// serve this often, and rooms nobody refreshes expire from Redis after ROOM_TTL_SECONDS.
+const ROOM_REFRESH_INTERVAL = 30 * 1000;
+const ROOM_TTL_SECONDS = 120;
+
+const roomStore = SHARED_ROOM_STATE ? await connectRedis(process.env.REDIS_URL) : createMemoryRoomStore();
+metrics.registerStateGauges({ roomStore, io });
+
+async function connectRedis(url) {
+  const pubClient = createClient({ url });
+  const subClient = pubClient.duplicate();
+  pubClient.on('error', error => logger.error('Redis client error', { error }));
+  subClient.on('error', error => logger.error('Redis subscriber error', { error }));
+  await Promise.all([pubClient.connect(), subClient.connect()]);
+  io.adapter(createAdapter(pubClient, subClient));
+  logger.info('Sharing room state and Socket.IO events through Redis');
+  return createRedisRoomStore(pubClient, { ttlSeconds: ROOM_TTL_SECONDS });
+}
+
+// Saved meetings; rooms for them are opened on demand
+const meetings = createMeetingStore(process.env.MEETINGS_FILE || path.join(__dirname, '../data/meetings.json'));
+
+// Express 4 does not catch rejected promises, so async routes pass their errors on explicitly
+const asyncRoute = (handler) => (req, res, next) => handler(req, res, next).catch(next);
+
+// Reads are cheap and polled; writes create rooms and meetings, so they get the tighter budget
+app.use('/api', (req, res, next) => {
+  const limiter = req.method === 'GET' ? IP_LIMITS.apiReads : IP_LIMITS.apiWrites;
+  if (!limiter.hit(req.ip)) {
+    logger.warn('Rate limited API request', { ip: req.ip, method: req.method, path: req.originalUrl });
+    metrics.abuseViolations.inc({ kind: 'rate-limit' });
+    res.set('Retry-After', String(limiter.windowMs / 1000));
+    res.status(429).json({ error: 'Too many requests; try again later' });
+    return;
+  }
+  next();
+});
+
+// Room API
+app.use('/api', express.json({ limit: '4kb' }));
+
+// Creates an empty room under a fresh code; the creator then joins it over the socket
+app.post('/api/rooms', asyncRoute(async (req, res) => {
+  const result = validateApiRequest('POST /api/rooms', req.body ?? {});
+  if (!result.ok) {
+    res.status(400).json({ error: result.error });
+    return;
+  }
+
+  if (await countRoomsOpenedBy(req.ip) >= MAX_ROOMS_PER_IP) {
+    logger.warn('Refused room over the per-IP limit', { ip: req.ip });
+    metrics.abuseViolations.inc({ kind: 'room-limit' });
+    res.status(429).json({ error: `At most ${MAX_ROOMS_PER_IP} rooms can be open from one network at a time` });
+    return;
+  }
+
+  const { format = 'words', passcode } = result.value;
+  const room = await reserveRoom(format, passcode, req.ip);
+  res.status(201).json({ room: toRoomInfo(room) });
+}));
+
+app.get('/api/rooms/:roomId', asyncRoute(async (req, res) => {
+  const { roomId } = req.params;
+  const meeting = meetings.get(roomId);
+  // A saved meeting counts as existing even while nobody is in its room
+  const room = isValidRoomId(roomId)
+    ? await roomStore.get(roomId) ?? (meeting ? openMeetingRoom(meeting) : null)
+    : null;
+  if (!room) {
+    res.status(404).json({ error: 'Room not found' });
+    return;
+  }
+  res.json(toRoomInfo(room));
+}));
+
+// Meeting API
+app.post('/api/meetings', asyncRoute(async (req, res) => {
+  const result = validateApiRequest('POST /api/meetings', req.body ?? {});
+  if (!result.ok) {
+    res.status(400).json({ error: result.error });
+    return;
+  }
+
+  const { title, ownerName, passcode, settings = {}, schedule } = result.value;
+  const owner = normalizeUserName(ownerName);
+  if (!owner) {
+    res.status(400).json({ error: `ownerName must be 1-${LIMITS.USER_NAME_MAX_LENGTH} characters` });
+    return;
+  }
+
+  const ownerKey = randomBytes(32).toString('hex');
+  const meeting = {
+    id: await generateRoomCode('words', isRoomCodeTaken),
+    title: title.trim(),
+    ownerName: owner,
+    ownerKeyHash: hashOwnerKey(ownerKey),
+    passcodeHash: passcode ? hashPasscode(passcode).toString('hex') : null,
+    settings: { waitingRoom: settings.waitingRoom ?? false },
+    schedule: schedule ? { ...schedule, recurrence: schedule.recurrence ?? 'none' } : null,
+    createdAt: Date.now()
+  };
+  await meetings.add(meeting);
+  logger.info('Saved meeting', { roomId: meeting.id, ownerName: owner });
+  res.status(201).json({ meeting: toMeetingInfo(meeting, req), ownerKey });
+}));
+
+// Lists the meetings created with the owner key sent as a bearer token
+app.get('/api/meetings', (req, res) => {
+  const ownerKeyHash = ownerKeyHashFrom(req);
+  if (!ownerKeyHash) {
+    res.status(401).json({ error: 'Owner key required' });
+    return;
+  }
+  res.json({ meetings: meetings.listByOwner(ownerKeyHash).map(meeting => toMeetingInfo(meeting, req)) });
+});
+
+app.get('/api/meetings/:meetingId', (req, res) => {
+  const meeting = meetings.get(req.params.meetingId);
+  if (!meeting) {
+    res.status(404).json({ error: 'Meeting not found' });
+    return;
+  }
+  res.json(toMeetingInfo(meeting, req));
+});
+
+app.delete('/api/meetings/:meetingId', asyncRoute(async (req, res) => {
+  const meeting = meetings.get(req.params.meetingId);
+  if (!meeting) {
+    res.status(404).json({ error: 'Meeting not found' });
+    return;
+  }
+  if (ownerKeyHashFrom(req) !== meeting.ownerKeyHash) {
+    res.status(403).json({ error: 'Only the owner can delete this meeting' });
+    return;
+  }
+  // Anyone still in the room keeps the call; it just won't be reopened once empty
+  await meetings.remove(meeting.id);
+  logger.info('Deleted meeting', { roomId: meeting.id });
+  res.status(204).end();
+}));
+
+app.get('/api/meetings/:meetingId/invite.ics', (req, res) => {
+  const meeting = meetings.get(req.params.meetingId);
+  if (!meeting) {
+    res.status(404).json({ error: 'Meeting not found' });
+    return;
+  }
+  if (!meeting.schedule) {
+    res.status(409).json({ error: 'Meeting has no schedule' });
+    return;
+  }
+
+  const url = joinUrl(req, meeting.id);
+  const description = [
+    `Join the meeting: ${url}`,
+    `Room code: ${meeting.id}`,
+    meeting.passcodeHash ? 'A passcode is required to join; ask the organizer for it.' : null,
+    `Organizer: ${meeting.ownerName}`
+  ].filter(Boolean).join('\n');
+
+  res.type('text/calendar');
+  res.attachment(`${meeting.id}.ics`);
+  res.send(buildInvite({
+    uid: `${meeting.id}@videomeet`,
+    title: meeting.title,
+    description,
+    url,
+    startsAt: meeting.schedule.startsAt,
+    durationMinutes: meeting.schedule.durationMinutes,
+    recurrence: meeting.schedule.recurrence,
+    createdAt: meeting.createdAt
+  }));
+});
+
+// ICE servers for RTCPeerConnection. TURN credentials are minted per request and expire,
+// so responses must not be cached.
+app.get('/api/ice-config', (req, res) => {
+  res.set('Cache-Control', 'no-store');
+  res.json(buildIceConfig());
+});
+
+// Hashing both sides gives timingSafeEqual equal-length inputs, so the token's length doesn't leak either
+function hasBearerToken(req, token) {
+  const match = /^Bearer (\S+)$/.exec(req.get('authorization') || '');
+  const expected = createHash('sha256').update(token).digest();
+  return Boolean(match) && timingSafeEqual(createHash('sha256').update(match[1]).digest(), expected);
+}
+
+// Admin API; disabled unless ADMIN_TOKEN is set, then the token is required as a bearer token
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN;
+
+app.use('/api/admin', (req, res, next) => {
+  if (!ADMIN_TOKEN) {
+    res.status(503).json({ error: 'Admin API is disabled; set ADMIN_TOKEN to enable it' });
+    return;
+  }
+  if (!hasBearerToken(req, ADMIN_TOKEN)) {
+    res.status(401).json({ error: 'Invalid admin token' });
+    return;
+  }
+  next();
+});
+
+// Socket counts come from every server process sharing the adapter
+app.get('/api/admin/rooms', asyncRoute(async (req, res) => {
+  const [rooms, sockets] = await Promise.all([roomStore.list(), io.fetchSockets()]);
+  res.json({
+    rooms: rooms.map(toAdminRoom),
+    connectedSockets: sockets.length
+  });
+}));
+
+// Ends the meeting for everyone, the same way a host's end-meeting does
+app.delete('/api/admin/rooms/:roomId', asyncRoute(async (req, res) => {
+  if (!(await closeRoom(req.params.roomId, 'Administrator'))) {
+    res.status(404).json({ error: 'Room not found' });
+    return;
+  }
+  logger.info('Room closed by an administrator', { roomId: req.params.roomId });
+  res.status(204).end();
+}));
+
+// Drops the connection; the participant keeps their seat for the resume grace period
+app.delete('/api/admin/sockets/:socketId', asyncRoute(async (req, res) => {
+  const [target] = await io.in(req.params.socketId).fetchSockets();
+  if (!target) {
+    res.status(404).json({ error: 'Socket not found' });
+    return;
+  }
+  target.disconnect(true);
+  logger.info('Socket disconnected by an administrator', { socketId: req.params.socketId });
+  res.status(204).end();
+}));
+
+app.use('/api', (req, res) => {
+  res.status(404).json({ error: 'Not found' });
+});
+
+// Body-parser rejects with its own 4xx status and a `type` naming the problem
+const CLIENT_ERROR_MESSAGES = {
+  'entity.parse.failed': 'Request body is not valid JSON',
+  'entity.too.large': 'Request body is too large'
+};
+
+// Express treats a handler with four parameters as the error handler
+app.use('/api', (error, req, res, next) => {
+  const status = error.status ?? error.statusCode ?? 500;
+  if (status >= 400 && status < 500) {
+    logger.debug('Rejected malformed API request', { method: req.method, path: req.originalUrl, type: error.type, status });
+    res.status(status).json({ error: CLIENT_ERROR_MESSAGES[error.type] ?? 'Bad request' });
+    return;
+  }
+  logger.error('API request failed', { method: req.method, path: req.originalUrl, error });
+  res.status(500).json({ error: 'Internal server error' });
+});
+
+// Prometheus scrape endpoint; set METRICS_TOKEN to require it as a bearer token
+app.get('/metrics', async (req, res) => {
+  const token = process.env.METRICS_TOKEN;
+  if (token && !hasBearerToken(req, token)) {
+    res.status(401).end();
+    return;
+  }
+  res.type(metrics.register.contentType);
+  res.send(await metrics.register.metrics());
+});
+
 // Serve static files from the dist directory
 app.use(express.static(path.join(__dirname, '../dist')));
 
@@ -28,215 +416,1083 @@ app.get('*', (req, res) => {
   res.sendFile(path.join(__dirname, '../dist/index.html'));
 });
 
-// Store room information
-const rooms = new Map();
+// Keep a bounded chat history per room so late joiners can catch up
+const MAX_CHAT_HISTORY = 200;
+
+// How long a disconnected participant keeps their seat before `user-left` is sent
+const RESUME_GRACE_PERIOD = Number(process.env.RESUME_GRACE_PERIOD_MS) || 30000;
+
+const MAX_ROOM_PARTICIPANTS = Number(process.env.MAX_ROOM_PARTICIPANTS) || 12;
+
+// Knocks beyond this are turned away as if the room were full
+const MAX_WAITING_PER_ROOM = 50;
+
+// Call-quality reports arriving faster than this from one socket are dropped
+const CALL_QUALITY_REPORT_MIN_INTERVAL = 10000;
+
+// How long a room created through the API stays reserved if nobody joins it
+const ROOM_CLAIM_TIMEOUT = Number(process.env.ROOM_CLAIM_TIMEOUT_MS) || 10 * 60 * 1000;
+
+// Passcodes are only kept as hashes and compared in constant time
+function hashPasscode(passcode) {
+  return createHash('sha256').update(passcode).digest();
+}
+
+function passcodeMatches(room, passcode) {
+  return Boolean(passcode) && timingSafeEqual(Buffer.from(room.passcodeHash, 'hex'), hashPasscode(passcode));
+}
+
+// Rooms only hold plain data so they can be stored anywhere; timers stay with the process
+// that started them and re-check the stored room when they fire.
+function createRoom(roomId, passcode, openedByIp = null) {
+  return {
+    roomId,
+    createdAt: Date.now(),
+    // Counted against MAX_ROOMS_PER_IP while the room is open
+    openedByIp,
+    locked: false,
+    passcodeHash: passcode ? hashPasscode(passcode).toString('hex') : null,
+    // With the waiting room on, new joiners knock and wait here until a host answers
+    waitingRoom: false,
+    waiting: new Map(),
+    // Session tokens a host has admitted; their next join skips the waiting room
+    admittedTokens: new Set(),
+    // Session tokens that may not join this room again
+    bannedTokens: new Set(),
+    // Addresses of banned participants. Tokens live in the browser and a new tab mints a fresh one,
+    // so new sessions from these addresses have to be admitted by a host
+    bannedIps: new Set(),
+    participants: new Map(),
+    // Set when the room was opened from a saved meeting
+    title: null
+  };
+}
+
+// Codes are shared by live rooms and saved meetings
+async function isRoomCodeTaken(code) {
+  return meetings.has(code) || await roomStore.has(code);
+}
+
+// Rooms still open that were opened from `ip`, across every process sharing the store
+async function countRoomsOpenedBy(ip) {
+  return (await roomStore.list()).filter(room => room.openedByIp === ip).length;
+}
+
+// Rooms this process has timers for (unclaimed reservations, seats held for resume). They are
+// kept alive in a shared store even when none of this process's sockets are in them.
+const timerRooms = new Map();
+
+function keepRoomAlive(roomId) {
+  timerRooms.set(roomId, (timerRooms.get(roomId) ?? 0) + 1);
+  return () => {
+    const count = timerRooms.get(roomId) - 1;
+    if (count > 0) {
+      timerRooms.set(roomId, count);
+    } else {
+      timerRooms.delete(roomId);
+    }
+  };
+}
+
+// Releases a room nobody has joined in time. A room that was deleted and opened
+// again under the same code in the meantime is left alone.
+function holdRoom(room) {
+  const release = keepRoomAlive(room.roomId);
+  setTimeout(() => {
+    release();
+    roomStore.update(room.roomId, (stored, deleteRoom) => {
+      if (stored.createdAt === room.createdAt && stored.participants.size === 0) {
+        deleteRoom();
+        return true;
+      }
+      return false;
+    })
+      .then(released => {
+        if (released) {
+          logger.info('Released unclaimed room', { roomId: room.roomId });
+        }
+      })
+      .catch(error => logger.error('Failed to release unclaimed room', { roomId: room.roomId, error }));
+  }, ROOM_CLAIM_TIMEOUT);
+}
+
+async function reserveRoom(format, passcode, openedByIp) {
+  let room;
+  do {
+    room = createRoom(await generateRoomCode(format, isRoomCodeTaken), passcode, openedByIp);
+  } while (!(await roomStore.create(room)));
+  holdRoom(room);
+  logger.info('Reserved room', { roomId: room.roomId });
+  return room;
+}
+
+// A fresh room carrying the meeting's title, passcode and default settings
+function openMeetingRoom(meeting) {
+  const room = createRoom(meeting.id, null);
+  room.title = meeting.title;
+  room.passcodeHash = meeting.passcodeHash;
+  room.waitingRoom = meeting.settings.waitingRoom;
+  return room;
+}
+
+function hashOwnerKey(ownerKey) {
+  return createHash('sha256').update(ownerKey).digest('hex');
+}
+
+function ownerKeyHashFrom(req) {
+  const match = /^Bearer (\S+)$/.exec(req.get('authorization') || '');
+  return match ? hashOwnerKey(match[1]) : null;
+}
+
+// Behind a proxy, set PUBLIC_URL so invite links use the public address
+function joinUrl(req, roomId) {
+  const base = process.env.PUBLIC_URL || `${req.protocol}://${req.get('host')}`;
+  return `${base.replace(/\/$/, '')}/?room=${encodeURIComponent(roomId)}`;
+}
+
+function toMeetingInfo(meeting, req) {
+  return {
+    id: meeting.id,
+    title: meeting.title,
+    ownerName: meeting.ownerName,
+    hasPasscode: meeting.passcodeHash !== null,
+    settings: meeting.settings,
+    ...(meeting.schedule ? { schedule: meeting.schedule } : {}),
+    createdAt: meeting.createdAt,
+    joinUrl: joinUrl(req, meeting.id)
+  };
+}
+
+function toRoomInfo(room) {
+  return {
+    roomId: room.roomId,
+    createdAt: room.createdAt,
+    maxParticipants: MAX_ROOM_PARTICIPANTS,
+    locked: room.locked,
+    hasPasscode: room.passcodeHash !== null,
+    waitingRoom: room.waitingRoom,
+    ...(room.title ? { title: room.title } : {})
+  };
+}
+
+function toWaitingList(room) {
+  return Array.from(room.waiting.values()).map(({ id, userName, requestedAt, fromBannedAddress }) =>
+    ({ id, userName, requestedAt, fromBannedAddress }));
+}
+
+// Every host sees the same knock list, so it is simply resent whenever it changes
+function sendWaitingList(room) {
+  const list = toWaitingList(room);
+  room.participants.forEach(participant => {
+    if (participant.role === 'host' && participant.connected) {
+      io.to(participant.socketId).emit('waiting-list', list);
+    }
+  });
+}
+
+function answerKnock(room, entry, admitted) {
+  room.waiting.delete(entry.id);
+  if (admitted) {
+    room.admittedTokens.add(entry.sessionToken);
+  }
+}
+
+// The knocker may be connected to another server process; its socket data is only
+// cleared here when it is local; elsewhere leaveWaitingList finds the entry gone
+function notifyKnocker(roomId, entry, admitted) {
+  const knocker = io.sockets.sockets.get(entry.socketId);
+  if (knocker) {
+    knocker.data.waitingRoomId = undefined;
+    knocker.data.waitingId = undefined;
+  }
+  io.to(entry.socketId).emit('knock-answered', { admitted });
+  logger.info(admitted ? 'Admitted from waiting room' : 'Denied from waiting room', { roomId, waitingId: entry.id, userName: entry.userName });
+}
+
+// Only these fields are shared with other participants (never the session token)
+function toPublicParticipant(participant) {
+  return {
+    userId: participant.userId,
+    userName: participant.userName,
+    role: participant.role,
+    isVideoOn: participant.isVideoOn,
+    isAudioOn: participant.isAudioOn,
+    isScreenSharing: participant.isScreenSharing,
+    isReconnecting: !participant.connected
+  };
+}
+
+function hasHost(room) {
+  return Array.from(room.participants.values()).some(p => p.role === 'host');
+}
+
+// Detach a socket, on whichever server process holds it, from its seat without touching the seat itself
+function unbindSocket(socketId, roomId) {
+  io.in(socketId).socketsLeave(roomId);
+  const target = io.sockets.sockets.get(socketId);
+  if (target) {
+    target.data.roomId = undefined;
+    target.data.userId = undefined;
+  }
+}
+
+// Takes a participant out of the room inside a store update. The returned departure is
+// announced with announceDeparture once the update has been stored.
+function dropParticipant(room, userId, deleteRoom) {
+  const user = room.participants.get(userId);
+  room.participants.delete(userId);
+
+  // The longest-present participant takes over when the last host leaves. Seats held open for
+  // a reconnect are only picked when nobody connected is left.
+  let nextHost = null;
+  if (user.role === 'host' && room.participants.size > 0 && !hasHost(room)) {
+    const remaining = Array.from(room.participants.values());
+    nextHost = remaining.find(participant => participant.connected) ?? remaining[0];
+    nextHost.role = 'host';
+  }
+
+  // Remove room if empty; nobody is left to admit anyone still waiting
+  const denied = [];
+  if (room.participants.size === 0) {
+    room.waiting.forEach(entry => {
+      answerKnock(room, entry, false);
+      denied.push(entry);
+    });
+    deleteRoom();
+  }
+  return { room, user, nextHost, denied };
+}
+
+function announceDeparture({ room, user, nextHost, denied }) {
+  const { roomId } = room;
+  metrics.callDuration.observe((Date.now() - user.joinedAt) / 1000);
+  logger.info('Participant left', { roomId, userId: user.userId, userName: user.userName, participants: room.participants.size });
+
+  // Notify other users in the room
+  io.to(roomId).emit('user-left', { userId: user.userId, userName: user.userName });
+
+  if (nextHost) {
+    io.to(roomId).emit('role-changed', { userId: nextHost.userId, role: 'host' });
+    logger.info('Promoted participant to host', { roomId, userId: nextHost.userId });
+    sendWaitingList(room);
+  }
+
+  if (room.participants.size === 0) {
+    denied.forEach(entry => notifyKnocker(roomId, entry, false));
+    logger.info('Deleted empty room', { roomId });
+  }
+}
+
+// `shouldRemove` is checked against the stored seat, so a seat that was resumed
+// (possibly through another server process) in the meantime is kept
+async function removeParticipant(roomId, userId, shouldRemove = () => true) {
+  const departure = await roomStore.update(roomId, (room, deleteRoom) => {
+    const participant = room.participants.get(userId);
+    return participant && shouldRemove(participant) ? dropParticipant(room, userId, deleteRoom) : null;
+  });
+  if (departure) {
+    announceDeparture(departure);
+  }
+}
+
+// Removes the seat after the resume grace period unless it was resumed (possibly through
+// another server process) in the meantime
+function holdSeatForResume(roomId, userId, socketId) {
+  const release = keepRoomAlive(roomId);
+  setTimeout(() => {
+    release();
+    removeParticipant(roomId, userId, participant => !participant.connected && participant.socketId === socketId)
+      .catch(error => logger.error('Failed to remove participant', { roomId, userId, error }));
+  }, RESUME_GRACE_PERIOD);
+}
+
+// Sockets of seated participants that no process reported in the last sweep
+let missingSockets = new Set();
+
+// Refreshes the rooms this process serves and releases seats left behind by processes that are gone
+async function refreshServedRooms() {
+  const roomIds = new Set(timerRooms.keys());
+  io.sockets.sockets.forEach(socket => {
+    if (socket.data.roomId) roomIds.add(socket.data.roomId);
+    if (socket.data.waitingRoomId) roomIds.add(socket.data.waitingRoomId);
+  });
+  await roomStore.touch(Array.from(roomIds));
+
+  const stillMissing = new Set();
+  await Promise.all(Array.from(roomIds, roomId => releaseOrphanedSeats(roomId, stillMissing)));
+  missingSockets = stillMissing;
+}
+
+// A connected seat whose socket no process has in two sweeps in a row belonged to a crashed
+// process; it gets the usual resume grace period. Seats that were already in their grace period
+// when their process died have lost their timer, so they are removed once it is long over.
+async function releaseOrphanedSeats(roomId, stillMissing) {
+  const live = new Set((await io.in(roomId).fetchSockets()).map(socket => socket.id));
+  const now = Date.now();
+  const result = await roomStore.update(roomId, (room, deleteRoom) => {
+    const orphaned = [];
+    const departures = [];
+    Array.from(room.participants.values()).forEach(participant => {
+      if (participant.connected) {
+        if (live.has(participant.socketId)) {
+          return;
+        }
+        stillMissing.add(participant.socketId);
+        if (missingSockets.has(participant.socketId)) {
+          participant.connected = false;
+          participant.disconnectedAt = now;
+          orphaned.push(participant);
+        }
+      } else if (now - participant.disconnectedAt > RESUME_GRACE_PERIOD + ROOM_REFRESH_INTERVAL) {
+        departures.push(dropParticipant(room, participant.userId, deleteRoom));
+      }
+    });
+    return { orphaned, departures };
+  });
+  if (!result) {
+    return;
+  }
+  result.orphaned.forEach(({ userId, socketId }) => {
+    logger.warn('Holding seat left by a stopped server process', { roomId, userId });
+    io.to(roomId).emit('user-reconnecting', { userId });
+    holdSeatForResume(roomId, userId, socketId);
+  });
+  result.departures.forEach(announceDeparture);
+}
+
+// Everyone is sent home and nobody waiting gets in; the room is gone afterwards.
+// Resolves to false when there was no such room.
+async function closeRoom(roomId, byUserName) {
+  const room = await roomStore.update(roomId, (stored, deleteRoom) => {
+    deleteRoom();
+    return stored;
+  });
+  if (!room) {
+    return false;
+  }
+  io.to(roomId).emit('meeting-ended', { byUserName });
+  room.waiting.forEach(entry => notifyKnocker(roomId, entry, false));
+  room.participants.forEach(participant => {
+    unbindSocket(participant.socketId, roomId);
+    metrics.callDuration.observe((Date.now() - participant.joinedAt) / 1000);
+  });
+  return true;
+}
+
+function toAdminRoom(room) {
+  return {
+    ...toRoomInfo(room),
+    participants: Array.from(room.participants.values()).map(participant => ({
+      ...toPublicParticipant(participant),
+      socketId: participant.socketId,
+      joinedAt: participant.joinedAt
+    })),
+    waiting: toWaitingList(room)
+  };
+}
 
 io.on('connection', (socket) => {
-  console.log('=== NEW CONNECTION ===');
-  console.log('User connected with socket ID:', socket.id);
+  // Every line logged for this socket carries its ID and, once joined, its room and participant
+  const log = logger.child(() => ({ socketId: socket.id, roomId: socket.data.roomId, userId: socket.data.userId }));
+  log.debug('Socket connected', { transport: socket.conn.transport.name });
+  metrics.socketConnections.inc();
+  const { ip } = socket.data;
+
+  // Drops a socket that broke one of the abuse limits
+  const disconnectForAbuse = (kind, fields) => {
+    log.warn('Disconnected socket for abuse', { kind, ip, ...fields });
+    metrics.abuseViolations.inc({ kind });
+    socket.disconnect(true);
+  };
+
+  // Runs before validation, so malformed and unknown events count too
+  socket.use(([event], next) => {
+    // Events already in flight when the socket was dropped are discarded quietly
+    if (socket.disconnected) {
+      return;
+    }
+    const eventLimiter = SOCKET_EVENT_LIMITS[event];
+    const withinLimits = SOCKET_EVENT_LIMITS['*'].hit(socket.id) &&
+      (!eventLimiter || eventLimiter.hit(socket.id)) &&
+      (event !== 'join-room' || IP_LIMITS.joins.hit(ip));
+    if (!withinLimits) {
+      const name = String(event).slice(0, 64);
+      socket.emit('protocol-error', { event: name, message: 'Rate limit exceeded' });
+      disconnectForAbuse('rate-limit', { event: name });
+      return;
+    }
+    next();
+  });
+
+  // Handlers wait on the room store, so they are queued to keep each socket's events in arrival order
+  let pending = Promise.resolve();
+  const enqueue = (event, task) => {
+    pending = pending.then(task).catch(error => {
+      log.error('Event handler failed', { event, error });
+    });
+  };
+
+  // Every client event is checked against the shared protocol before its handler runs
+  const on = (event, handler) => {
+    socket.on(event, (payload, ack) => {
+      const result = validateClientEvent(event, payload);
+      if (!result.ok) {
+        log.warn('Rejected malformed event', { event, reason: result.error });
+        metrics.protocolErrors.inc({ kind: 'malformed' });
+        if (typeof ack === 'function' && ACK_SCHEMAS[event]) {
+          ack({ status: 'rejected', error: { code: 'invalid-request', message: result.error } });
+        } else {
+          socket.emit('protocol-error', { event, message: result.error });
+        }
+        return;
+      }
+      metrics.signalingMessages.inc({ event });
+      enqueue(event, () => handler(result.value, typeof ack === 'function' ? ack : () => {}));
+    });
+  };
+
+  socket.onAny((event) => {
+    if (!Object.prototype.hasOwnProperty.call(CLIENT_EVENT_SCHEMAS, event)) {
+      log.warn('Rejected unknown event', { event: String(event).slice(0, 64) });
+      metrics.protocolErrors.inc({ kind: 'unknown' });
+      socket.emit('protocol-error', { event: String(event).slice(0, 64), message: `Unknown event: ${event}`.slice(0, 256) });
+    }
+  });
 
   // ハートビート機能
-  socket.on('ping', () => {
+  on('ping', () => {
     socket.emit('pong');
   });
 
-  socket.on('join-room', ({ roomId, userId, userName }) => {
-    console.log('=== JOIN ROOM REQUEST ===');
-    console.log(`User ${userName} (${userId}) attempting to join room ${roomId}`);
-    console.log('Socket ID:', socket.id);
-    
+  on('join-room', async ({ roomId, userName: requestedName, sessionToken, passcode, create, connectedPeers }, ack) => {
+    log.debug('Join requested', { roomId, userName: requestedName });
+
+    const reject = (code, message) => {
+      log.warn('Rejected join', { roomId, code });
+      metrics.joinAttempts.inc({ outcome: 'rejected' });
+      metrics.joinRejections.inc({ code });
+      ack({ status: 'rejected', error: { code, message } });
+    };
+
+    const userName = normalizeUserName(requestedName);
+    if (!userName) {
+      reject('invalid-name', `Name must be 1-${LIMITS.USER_NAME_MAX_LENGTH} characters`);
+      return;
+    }
+
+    // A saved meeting's room is opened on demand; otherwise only `create` may open a new room
+    if (!(await roomStore.has(roomId))) {
+      const meeting = meetings.get(roomId);
+      if (meeting) {
+        const room = openMeetingRoom(meeting);
+        if (await roomStore.create(room)) {
+          holdRoom(room);
+          log.info('Opened room for saved meeting', { roomId });
+        }
+      } else if (create) {
+        if (await countRoomsOpenedBy(ip) >= MAX_ROOMS_PER_IP) {
+          reject('rate-limited', `At most ${MAX_ROOMS_PER_IP} rooms can be open from one network at a time`);
+          disconnectForAbuse('room-limit', { roomId });
+          return;
+        }
+        if (await roomStore.create(createRoom(roomId, passcode, ip))) {
+          log.info('Created room', { roomId });
+        }
+      } else {
+        reject('room-not-found', 'No meeting exists with this code');
+        return;
+      }
+    }
+
+    // A new join replaces any knock this socket left elsewhere
+    await leaveWaitingList();
+    const bound = await getSelf();
+
+    const seat = await roomStore.update(roomId, (room) => takeSeat(room, { userName, sessionToken, passcode }));
+    if (!seat) {
+      reject('room-not-found', 'No meeting exists with this code');
+      return;
+    }
+    if (seat.rejected) {
+      reject(...seat.rejected);
+      return;
+    }
+    if (seat.waiting) {
+      socket.data.waitingRoomId = roomId;
+      socket.data.waitingId = seat.waiting.id;
+      log.info('Waiting to be admitted', { roomId, waitingId: seat.waiting.id, userName });
+      sendWaitingList(seat.room);
+      metrics.joinAttempts.inc({ outcome: 'waiting' });
+      ack({ status: 'waiting' });
+      return;
+    }
+
+    const { room, userId, previous } = seat;
+
+    // A socket holds at most one seat, so joining elsewhere gives up the old one
+    if (bound && (bound.roomId !== roomId || bound.userId !== userId)) {
+      socket.leave(bound.roomId);
+      await removeParticipant(bound.roomId, bound.userId, participant => participant.socketId === socket.id);
+    }
+
     // Leave any existing rooms first
     const currentRooms = Array.from(socket.rooms).filter(room => room !== socket.id);
-    currentRooms.forEach(room => {
-      socket.leave(room);
-      console.log(`Left previous room: ${room}`);
-    });
-    
+    currentRooms.forEach(room => socket.leave(room));
+
     // Join the new room
     socket.join(roomId);
-    console.log(`Socket ${socket.id} joined room ${roomId}`);
-    
-    // Initialize room if it doesn't exist
-    if (!rooms.has(roomId)) {
-      rooms.set(roomId, new Map());
-      console.log(`Created new room: ${roomId}`);
-    }
-    
-    const room = rooms.get(roomId);
-    
+
+    // A stale socket still holding the resumed seat stops receiving room traffic
+    if (previous && previous.socketId !== socket.id) {
+      unbindSocket(previous.socketId, roomId);
+    }
+
     // Get existing participants before adding new user
-    const existingParticipants = Array.from(room.values()).filter(p => p.userId !== userId);
-    console.log(`Existing participants in room ${roomId}:`, existingParticipants.map(p => p.userName));
-    
-    // Add new user to room
-    room.set(userId, {
-      socketId: socket.id,
-      userName,
-      userId
-    });
-    
-    console.log(`Room ${roomId} now has ${room.size} participants:`, Array.from(room.keys()));
-    
-    // Send existing participants to the new user
-    if (existingParticipants.length > 0) {
-      console.log(`Sending ${existingParticipants.length} existing participants to new user`);
-      socket.emit('room-participants', existingParticipants);
-    }
-    
-    // Notify existing participants about the new user
-    console.log(`Notifying existing participants about new user: ${userName}`);
-    socket.to(roomId).emit('user-joined', { userId, userName });
-    
-    console.log(`=== JOIN COMPLETE ===`);
-    console.log(`User ${userName} successfully joined room ${roomId}`);
-  });
-
-  socket.on('offer', ({ targetUserId, offer, roomId }) => {
-    console.log('=== OFFER RECEIVED ===');
-    const callerUserId = getUserIdBySocket(socket.id, roomId);
-    console.log(`Offer from ${callerUserId} to ${targetUserId} in room ${roomId}`);
-    
-    const room = rooms.get(roomId);
-    if (room && room.has(targetUserId)) {
-      const targetSocket = room.get(targetUserId).socketId;
-      console.log(`Forwarding offer to socket: ${targetSocket}`);
-      
-      io.to(targetSocket).emit('offer', {
+    const existingParticipants = Array.from(room.participants.values()).filter(p => p.userId !== userId);
+
+    // Bind the identity to this socket; every later event uses it instead of payload IDs
+    socket.data.roomId = roomId;
+    socket.data.userId = userId;
+    const { role } = room.participants.get(userId);
+    metrics.joinAttempts.inc({ outcome: previous ? 'resumed' : 'joined' });
+    ack({
+      status: 'joined',
+      userId,
+      role,
+      room: toRoomInfo(room),
+      participants: existingParticipants.map(toPublicParticipant)
+    });
+    if (role === 'host' && room.waiting.size > 0) {
+      socket.emit('waiting-list', toWaitingList(room));
+    }
+
+    // Replay the public chat history to the new user
+    const messages = await roomStore.getMessages(roomId);
+    if (messages.length > 0) {
+      socket.emit('chat-history', messages);
+    }
+
+    if (previous) {
+      // Only peers whose connection did not survive need to renegotiate
+      const healthyPeers = new Set(Array.isArray(connectedPeers) ? connectedPeers : []);
+      existingParticipants.forEach(participant => {
+        if (healthyPeers.has(participant.userId)) {
+          io.to(participant.socketId).emit('user-resumed', { userId });
+        } else {
+          io.to(participant.socketId).emit('user-joined', { userId, userName, role });
+        }
+      });
+      log.info('Participant resumed', { userName, keptPeers: healthyPeers.size, participants: room.participants.size });
+    } else {
+      // Notify existing participants about the new user
+      log.info('Participant joined', { userName, role, participants: room.participants.size });
+      socket.to(roomId).emit('user-joined', { userId, userName, role });
+    }
+  });
+
+  on('leave-room', async ({ roomId }) => {
+    const self = await getSelf(roomId);
+    if (self) {
+      socket.leave(roomId);
+      socket.data.roomId = undefined;
+      socket.data.userId = undefined;
+      await removeParticipant(roomId, self.userId, participant => participant.socketId === socket.id);
+    }
+  });
+
+  // Only the host can lock the room; a locked room refuses every new join
+  on('lock-room', async ({ roomId, locked }) => {
+    const room = await updateAsHost('lock-room', roomId, ({ room }) => {
+      room.locked = locked;
+      return room;
+    });
+    if (!room) {
+      return;
+    }
+    log.info(locked ? 'Room locked' : 'Room unlocked');
+    io.to(roomId).emit('room-updated', toRoomInfo(room));
+  });
+
+  // --- Host moderation ---
+
+  on('set-role', async ({ roomId, targetUserId, role }) => {
+    const result = await updateAsHost('set-role', roomId, ({ room }) => {
+      const target = room.participants.get(targetUserId);
+      if (!target) {
+        return null;
+      }
+      // Stepping down is fine as long as someone else stays host
+      if (role === 'participant' && target.role === 'host' &&
+          Array.from(room.participants.values()).filter(p => p.role === 'host').length === 1) {
+        return { ignored: true };
+      }
+      target.role = role;
+      return { room };
+    });
+    if (!result) {
+      return;
+    }
+    if (result.ignored) {
+      log.warn('Ignored demoting the only host', { targetUserId });
+      return;
+    }
+    io.to(roomId).emit('role-changed', { userId: targetUserId, role });
+    sendWaitingList(result.room);
+    log.info('Role changed', { targetUserId, role });
+  });
+
+  on('transfer-host', async ({ roomId, targetUserId }) => {
+    const result = await updateAsHost('transfer-host', roomId, ({ room, userId, participant }) => {
+      const target = room.participants.get(targetUserId);
+      if (!target || targetUserId === userId) {
+        return null;
+      }
+      target.role = 'host';
+      participant.role = 'participant';
+      return { room, userId };
+    });
+    if (!result) {
+      return;
+    }
+    io.to(roomId).emit('role-changed', { userId: targetUserId, role: 'host' });
+    io.to(roomId).emit('role-changed', { userId: result.userId, role: 'participant' });
+    sendWaitingList(result.room);
+    log.info('Host transferred', { targetUserId });
+  });
+
+  // The host can only ask; the target's client turns its own track off
+  on('request-media-off', async ({ roomId, targetUserId, kind }) => {
+    const self = await getHost('request-media-off', roomId);
+    const target = self && self.room.participants.get(targetUserId);
+    if (!target || targetUserId === self.userId) {
+      return;
+    }
+    io.to(target.socketId).emit('media-off-requested', { kind, byUserName: self.participant.userName });
+    log.info('Requested media off', { targetUserId, kind });
+  });
+
+  on('remove-participant', async ({ roomId, targetUserId, ban }) => {
+    const result = await updateAsHost('remove-participant', roomId, ({ room, userId, participant }, deleteRoom) => {
+      const target = room.participants.get(targetUserId);
+      if (!target || targetUserId === userId) {
+        return null;
+      }
+      if (ban) {
+        room.bannedTokens.add(target.sessionToken);
+        if (target.ip) {
+          room.bannedIps.add(target.ip);
+        }
+      }
+      return { target, byUserName: participant.userName, departure: dropParticipant(room, targetUserId, deleteRoom) };
+    });
+    if (!result) {
+      return;
+    }
+    const { target, byUserName, departure } = result;
+    io.to(target.socketId).emit('removed-from-room', { banned: ban, byUserName });
+    unbindSocket(target.socketId, roomId);
+    announceDeparture(departure);
+    log.info('Removed participant', { targetUserId, ban });
+  });
+
+  on('end-meeting', async ({ roomId }) => {
+    const self = await getHost('end-meeting', roomId);
+    if (!self) {
+      return;
+    }
+    log.info('Meeting ended by host');
+    await closeRoom(roomId, self.participant.userName);
+  });
+
+  on('set-waiting-room', async ({ roomId, enabled }) => {
+    const result = await updateAsHost('set-waiting-room', roomId, ({ room }) => {
+      room.waitingRoom = enabled;
+      // Turning the waiting room off lets in everyone who was still waiting
+      const admitted = enabled ? [] : Array.from(room.waiting.values());
+      admitted.forEach(entry => answerKnock(room, entry, true));
+      return { room, admitted };
+    });
+    if (!result) {
+      return;
+    }
+    const { room, admitted } = result;
+    log.info(enabled ? 'Waiting room enabled' : 'Waiting room disabled');
+    io.to(roomId).emit('room-updated', toRoomInfo(room));
+    if (admitted.length > 0) {
+      admitted.forEach(entry => notifyKnocker(roomId, entry, true));
+      sendWaitingList(room);
+    }
+  });
+
+  on('respond-to-knock', async ({ roomId, waitingIds, admit }) => {
+    const result = await updateAsHost('respond-to-knock', roomId, ({ room }) => {
+      const answered = waitingIds.map(waitingId => room.waiting.get(waitingId)).filter(Boolean);
+      answered.forEach(entry => answerKnock(room, entry, admit));
+      return { room, answered };
+    });
+    if (!result) {
+      return;
+    }
+    result.answered.forEach(entry => notifyKnocker(roomId, entry, admit));
+    sendWaitingList(result.room);
+  });
+
+  on('offer', async ({ targetUserId, offer, roomId, isRebuild }) => {
+    const self = await getSelf(roomId);
+    if (!self) {
+      return;
+    }
+    const callerUserId = self.userId;
+
+    const target = self.room.participants.get(targetUserId);
+    if (target) {
+      io.to(target.socketId).emit('offer', {
         offer,
-        callerUserId
+        callerUserId,
+        isRebuild: Boolean(isRebuild)
       });
-      console.log(`Offer successfully forwarded to ${targetUserId}`);
+      log.debug('Forwarded offer', { targetUserId, isRebuild: Boolean(isRebuild) });
     } else {
-      console.error(`Target user ${targetUserId} not found in room ${roomId}`);
-      console.error('Available users in room:', room ? Array.from(room.keys()) : 'Room not found');
-    }
-  });
-
-  socket.on('answer', ({ targetUserId, answer, roomId }) => {
-    console.log('=== ANSWER RECEIVED ===');
-    const answererUserId = getUserIdBySocket(socket.id, roomId);
-    console.log(`Answer from ${answererUserId} to ${targetUserId} in room ${roomId}`);
-    
-    const room = rooms.get(roomId);
-    if (room && room.has(targetUserId)) {
-      const targetSocket = room.get(targetUserId).socketId;
-      console.log(`Forwarding answer to socket: ${targetSocket}`);
-      
-      io.to(targetSocket).emit('answer', {
+      log.warn('Offer target not in room', { targetUserId });
+      metrics.failedForwards.inc({ event: 'offer' });
+    }
+  });
+
+  on('answer', async ({ targetUserId, answer, roomId }) => {
+    const self = await getSelf(roomId);
+    if (!self) {
+      return;
+    }
+    const answererUserId = self.userId;
+
+    const target = self.room.participants.get(targetUserId);
+    if (target) {
+      io.to(target.socketId).emit('answer', {
         answer,
         answererUserId
       });
-      console.log(`Answer successfully forwarded to ${targetUserId}`);
+      log.debug('Forwarded answer', { targetUserId });
     } else {
-      console.error(`Target user ${targetUserId} not found in room ${roomId}`);
-      console.error('Available users in room:', room ? Array.from(room.keys()) : 'Room not found');
+      log.warn('Answer target not in room', { targetUserId });
+      metrics.failedForwards.inc({ event: 'answer' });
     }
   });
 
-  socket.on('ice-candidate', ({ targetUserId, candidate, roomId }) => {
-    console.log('=== ICE CANDIDATE RECEIVED ===');
-    const senderUserId = getUserIdBySocket(socket.id, roomId);
-    console.log(`ICE candidate from ${senderUserId} to ${targetUserId} in room ${roomId}`);
-    
-    const room = rooms.get(roomId);
-    if (room && room.has(targetUserId)) {
-      const targetSocket = room.get(targetUserId).socketId;
-      
-      io.to(targetSocket).emit('ice-candidate', {
+  on('ice-candidate', async ({ targetUserId, candidate, roomId }) => {
+    const self = await getSelf(roomId);
+    if (!self) {
+      return;
+    }
+    const senderUserId = self.userId;
+    const target = self.room.participants.get(targetUserId);
+    if (target) {
+      io.to(target.socketId).emit('ice-candidate', {
         candidate,
         senderUserId
       });
-      console.log(`ICE candidate forwarded to ${targetUserId}`);
     } else {
-      console.error(`Target user ${targetUserId} not found for ICE candidate`);
+      log.debug('ICE candidate target not in room', { targetUserId });
+      metrics.failedForwards.inc({ event: 'ice-candidate' });
     }
   });
 
-  socket.on('toggle-video', ({ roomId, isVideoOn }) => {
-    const userId = getUserIdBySocket(socket.id, roomId);
+  on('toggle-video', async ({ roomId, isVideoOn }) => {
+    const userId = await updateAsSelf(roomId, ({ userId, participant }) => {
+      participant.isVideoOn = isVideoOn;
+      return userId;
+    });
     if (userId) {
-      console.log(`User ${userId} toggled video: ${isVideoOn}`);
+      log.debug('Video toggled', { isVideoOn });
       socket.to(roomId).emit('user-video-toggled', { userId, isVideoOn });
     }
   });
 
-  socket.on('toggle-audio', ({ roomId, isAudioOn }) => {
-    const userId = getUserIdBySocket(socket.id, roomId);
+  on('toggle-audio', async ({ roomId, isAudioOn }) => {
+    const userId = await updateAsSelf(roomId, ({ userId, participant }) => {
+      participant.isAudioOn = isAudioOn;
+      return userId;
+    });
     if (userId) {
-      console.log(`User ${userId} toggled audio: ${isAudioOn}`);
+      log.debug('Audio toggled', { isAudioOn });
       socket.to(roomId).emit('user-audio-toggled', { userId, isAudioOn });
     }
   });
 
   // 画面共有イベントの追加
-  socket.on('screen-share-started', ({ roomId, userId, userName }) => {
-    console.log(`User ${userName} (${userId}) started screen sharing in room ${roomId}`);
-    socket.to(roomId).emit('user-screen-share-started', { userId, userName });
+  on('screen-share-started', async ({ roomId }) => {
+    const participant = await updateAsSelf(roomId, ({ participant }) => {
+      participant.isScreenSharing = true;
+      return participant;
+    });
+    if (!participant) {
+      return;
+    }
+    log.info('Screen share started');
+    socket.to(roomId).emit('user-screen-share-started', { userId: participant.userId, userName: participant.userName });
   });
 
-  socket.on('screen-share-stopped', ({ roomId, userId }) => {
-    console.log(`User ${userId} stopped screen sharing in room ${roomId}`);
+  on('screen-share-stopped', async ({ roomId }) => {
+    const userId = await updateAsSelf(roomId, ({ userId, participant }) => {
+      participant.isScreenSharing = false;
+      return userId;
+    });
+    if (!userId) {
+      return;
+    }
+    log.info('Screen share stopped');
     socket.to(roomId).emit('user-screen-share-stopped', { userId });
   });
 
-  socket.on('disconnect', (reason) => {
-    console.log('=== USER DISCONNECTED ===');
-    console.log('Socket disconnected:', socket.id, 'Reason:', reason);
-    
-    // Remove user from all rooms
-    let userInfo = null;
-    rooms.forEach((room, roomId) => {
-      const userEntry = Array.from(room.entries()).find(([_, user]) => user.socketId === socket.id);
-      if (userEntry) {
-        const [userId, user] = userEntry;
-        userInfo = { userId, userName: user.userName, roomId };
-        
-        // Remove user from room
-        room.delete(userId);
-        console.log(`Removed user ${user.userName} from room ${roomId}`);
-        
-        // Notify other users in the room
-        socket.to(roomId).emit('user-left', { userId, userName: user.userName });
-        console.log(`Notified room ${roomId} that user ${user.userName} left`);
-        
-        // Remove room if empty
-        if (room.size === 0) {
-          rooms.delete(roomId);
-          console.log(`Deleted empty room: ${roomId}`);
-        } else {
-          console.log(`Room ${roomId} now has ${room.size} participants`);
-        }
+  // チャット機能
+  on('chat-message', async ({ roomId, text, targetUserId }) => {
+    const self = await getSelf(roomId);
+    if (!self) {
+      return;
+    }
+
+    const body = text.trim();
+
+    const { room, userId: senderUserId, participant: sender } = self;
+    const message = {
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 6)}`,
+      senderUserId,
+      senderName: sender.userName,
+      text: body.slice(0, LIMITS.CHAT_MESSAGE_MAX_LENGTH),
+      timestamp: Date.now()
+    };
+
+    if (targetUserId) {
+      // Private messages go only to the recipient and the sender, never into history
+      const target = room.participants.get(targetUserId);
+      if (!target) {
+        log.warn('Chat recipient not in room', { targetUserId });
+        metrics.failedForwards.inc({ event: 'chat-message' });
+        return;
       }
+      const privateMessage = { ...message, targetUserId, targetName: target.userName };
+      io.to(target.socketId).emit('chat-message', privateMessage);
+      socket.emit('chat-message', privateMessage);
+      log.debug('Private chat message sent', { targetUserId });
+      return;
+    }
+
+    await roomStore.appendMessage(roomId, message, MAX_CHAT_HISTORY);
+    io.to(roomId).emit('chat-message', message);
+    log.debug('Chat message sent');
+  });
+
+  on('call-quality-report', async ({ roomId, samples }) => {
+    const self = await getSelf(roomId);
+    if (!self) {
+      return;
+    }
+    // Clients report every 30s; anything much faster would skew the histograms
+    const now = Date.now();
+    if (now - (socket.data.lastQualityReportAt ?? 0) < CALL_QUALITY_REPORT_MIN_INTERVAL) {
+      return;
+    }
+    socket.data.lastQualityReportAt = now;
+    samples.forEach(({ roundTripTime, jitter, packetLoss }) => {
+      if (typeof roundTripTime === 'number') metrics.callRoundTripTime.observe(roundTripTime);
+      if (typeof jitter === 'number') metrics.callJitter.observe(jitter);
+      if (typeof packetLoss === 'number') metrics.callPacketLoss.observe(packetLoss);
     });
-    
-    if (userInfo) {
-      console.log(`Cleanup complete for user: ${userInfo.userName}`);
+  });
+
+  socket.on('disconnect', (reason, description) => {
+    if (reason === 'transport error' && isPayloadTooLarge(description)) {
+      log.warn('Disconnected socket over the payload limit', { kind: 'payload-size', ip, maxBytes: MAX_PAYLOAD_BYTES });
+      metrics.abuseViolations.inc({ kind: 'payload-size' });
+    }
+    log.info('Socket disconnected', { reason });
+    metrics.socketDisconnects.inc({ reason });
+    const open = (connectionsPerIp.get(ip) ?? 1) - 1;
+    if (open > 0) {
+      connectionsPerIp.set(ip, open);
     } else {
-      console.log('No user info found for disconnected socket');
+      connectionsPerIp.delete(ip);
     }
+
+    enqueue('disconnect', async () => {
+      await leaveWaitingList();
+
+      // Keep the seat for a grace period so a refresh or network blip can resume it
+      const self = await updateAsSelf(socket.data.roomId, (self) => {
+        self.participant.connected = false;
+        self.participant.disconnectedAt = Date.now();
+        return self;
+      });
+      if (!self) {
+        return;
+      }
+
+      const { roomId, userId } = self;
+      socket.to(roomId).emit('user-reconnecting', { userId });
+      holdSeatForResume(roomId, userId, socket.id);
+      log.debug('Holding seat for resume', { gracePeriodMs: RESUME_GRACE_PERIOD });
+    });
   });
 
-  function getUserIdBySocket(socketId, roomId) {
-    const room = rooms.get(roomId);
-    if (!room) {
-      console.error(`Room ${roomId} not found when looking for socket ${socketId}`);
+  // Runs inside the join's store update: decides whether this socket gets a seat, has to knock, or is turned away
+  function takeSeat(room, { userName, sessionToken, passcode }) {
+    // A matching session token resumes that seat; otherwise the server mints a new identity
+    const previous = Array.from(room.participants.values()).find(p => p.sessionToken === sessionToken);
+
+    if (room.bannedTokens.has(sessionToken)) {
+      return { rejected: ['banned', 'You have been removed from this room'] };
+    }
+
+    // Resuming an existing seat is always allowed, even into a locked or full room.
+    // Someone a host admitted from the waiting room already passed the lock and passcode checks.
+    const admitted = room.admittedTokens.has(sessionToken);
+    // A new session from a banned participant's address knocks even with the waiting room off
+    const fromBannedAddress = room.bannedIps.has(socket.data.ip);
+    if (!previous) {
+      if (!admitted && room.locked) {
+        return { rejected: ['room-locked', 'This room is locked'] };
+      }
+      if (!admitted && room.passcodeHash) {
+        if (!passcode) {
+          return { rejected: ['passcode-required', 'This room requires a passcode'] };
+        }
+        if (!passcodeMatches(room, passcode)) {
+          return { rejected: ['invalid-passcode', 'The passcode is incorrect'] };
+        }
+      }
+      if (room.participants.size >= MAX_ROOM_PARTICIPANTS) {
+        return { rejected: ['room-full', `This room is limited to ${MAX_ROOM_PARTICIPANTS} participants`] };
+      }
+      if (!admitted && (room.waitingRoom || fromBannedAddress)) {
+        const knocking = Array.from(room.waiting.values()).some(entry => entry.sessionToken === sessionToken);
+        if (!knocking && room.waiting.size >= MAX_WAITING_PER_ROOM) {
+          return { rejected: ['room-full', 'Too many people are already waiting to join this room'] };
+        }
+        return { room, waiting: knock(room, userName, sessionToken, fromBannedAddress) };
+      }
+    }
+    if (admitted) {
+      room.admittedTokens.delete(sessionToken);
+    }
+
+    if (previous) {
+      // Resume the same identity on the new socket
+      const { socketId } = previous;
+      previous.socketId = socket.id;
+      previous.userName = userName;
+      previous.connected = true;
+      return { room, userId: previous.userId, previous: { socketId } };
+    }
+
+    // Add new user to room; whoever creates the room becomes its host
+    const userId = randomUUID();
+    room.participants.set(userId, {
+      socketId: socket.id,
+      userName,
+      userId,
+      sessionToken,
+      // Recorded so a ban also covers sessions the banned browser opens later
+      ip: socket.data.ip,
+      role: room.participants.size === 0 ? 'host' : 'participant',
+      joinedAt: Date.now(),
+      connected: true,
+      isVideoOn: true,
+      isAudioOn: true,
+      isScreenSharing: false
+    });
+    return { room, userId, previous: null };
+  }
+
+  // Put this socket on the room's waiting list; a reconnecting knocker keeps their place
+  function knock(room, userName, sessionToken, fromBannedAddress) {
+    const existing = Array.from(room.waiting.values()).find(entry => entry.sessionToken === sessionToken);
+    const entry = existing ?? { id: randomUUID(), sessionToken, requestedAt: Date.now() };
+    entry.socketId = socket.id;
+    entry.userName = userName;
+    entry.fromBannedAddress = fromBannedAddress;
+    room.waiting.set(entry.id, entry);
+    return entry;
+  }
+
+  // Withdraw this socket's knock, if any, and let the hosts know
+  async function leaveWaitingList() {
+    const { waitingRoomId, waitingId } = socket.data;
+    socket.data.waitingRoomId = undefined;
+    socket.data.waitingId = undefined;
+    if (!waitingRoomId) {
+      return;
+    }
+    const room = await roomStore.update(waitingRoomId, (room) => {
+      const entry = room.waiting.get(waitingId);
+      if (!entry || entry.socketId !== socket.id) {
+        return null;
+      }
+      room.waiting.delete(waitingId);
+      return room;
+    });
+    if (room) {
+      sendWaitingList(room);
+    }
+  }
+
+  // Like getSelf, but only for hosts; moderation from anyone else is logged and dropped
+  async function getHost(event, roomId) {
+    const self = await getSelf(roomId);
+    if (self && self.participant.role !== 'host') {
+      log.warn('Ignored host-only event from non-host', { event });
       return null;
     }
-    
-    const userEntry = Array.from(room.entries()).find(([_, user]) => user.socketId === socketId);
-    if (!userEntry) {
-      console.error(`User with socket ${socketId} not found in room ${roomId}`);
-      console.error('Available users:', Array.from(room.entries()).map(([id, user]) => ({ id, socketId: user.socketId })));
+    return self;
+  }
+
+  // The seat bound to this socket at join time. Resolves to null when the socket never joined,
+  // names a different room, or its seat has since been resumed on another socket.
+  async function getSelf(roomId = socket.data.roomId) {
+    const { userId } = socket.data;
+    const room = roomId && roomId === socket.data.roomId ? await roomStore.get(roomId) : null;
+    const participant = room ? room.participants.get(userId) : null;
+    if (!participant || participant.socketId !== socket.id) {
       return null;
     }
-    
-    return userEntry[0];
+    return { room, roomId, userId, participant };
+  }
+
+  // Changes this socket's own seat inside a store update. `fn` gets the same shape as getSelf
+  // and is skipped, resolving to null, when the socket no longer holds the seat.
+  function updateAsSelf(roomId, fn) {
+    const { userId } = socket.data;
+    if (!roomId || roomId !== socket.data.roomId) {
+      return Promise.resolve(null);
+    }
+    return roomStore.update(roomId, (room, deleteRoom) => {
+      const participant = room.participants.get(userId);
+      if (!participant || participant.socketId !== socket.id) {
+        return null;
+      }
+      return fn({ room, roomId, userId, participant }, deleteRoom);
+    });
+  }
+
+  // Like updateAsSelf, but only for hosts
+  async function updateAsHost(event, roomId, fn) {
+    let notHost = false;
+    const result = await updateAsSelf(roomId, (self, deleteRoom) => {
+      notHost = self.participant.role !== 'host';
+      return notHost ? null : fn(self, deleteRoom);
+    });
+    if (notHost) {
+      log.warn('Ignored host-only event from non-host', { event });
+    }
+    return result;
   }
 });
 
+if (SHARED_ROOM_STATE) {
+  setInterval(() => {
+    refreshServedRooms().catch(error => logger.error('Failed to refresh served rooms', { error }));
+  }, ROOM_REFRESH_INTERVAL);
+}
+
 const PORT = process.env.PORT || 3001;
 server.listen(PORT, () => {
-  console.log(`=== SERVER STARTED ===`);
-  console.log(`Server running on port ${PORT}`);
-  console.log(`Environment: ${process.env.NODE_ENV || 'development'}`);
-});
\ No newline at end of file
+  logger.info('Server started', { port: PORT, environment: process.env.NODE_ENV || 'development' });
+});
@@ -0,0 +1,65 @@
+// Leveled JSON logger. Each line is one JSON object with a timestamp, level, message
+// and correlation fields (roomId, userId, socketId) so a room's history can be grepped out.
+//
+//   LOG_LEVEL       debug | info | warn | error | silent (default: info in production, debug otherwise)
+//   LOG_FORMAT      json (default) or pretty for one readable line per record
+//   LOG_USER_NAMES  set to "true" to log display names; they are redacted by default
+
+const LEVELS = { debug: 10, info: 20, warn: 30, error: 40, silent: 100 };
+
+const REDACTED_FIELDS = new Set(['userName', 'targetName', 'senderName', 'ownerName']);
+
+const defaultLevel = process.env.NODE_ENV === 'production' ? 'info' : 'debug';
+const minLevel = LEVELS[process.env.LOG_LEVEL] ?? LEVELS[defaultLevel];
+const pretty = process.env.LOG_FORMAT === 'pretty';
+const logUserNames = process.env.LOG_USER_NAMES === 'true';
+
+function serialize(value) {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  return value;
+}
+
+function buildRecord(level, message, fields) {
+  const record = { time: new Date().toISOString(), level, msg: message };
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === undefined) continue;
+    record[key] = REDACTED_FIELDS.has(key) && !logUserNames ? '[redacted]' : serialize(value);
+  }
+  return record;
+}
+
+function write(level, record) {
+  const stream = LEVELS[level] >= LEVELS.warn ? process.stderr : process.stdout;
+  if (pretty) {
+    const { time, msg, ...rest } = record;
+    delete rest.level;
+    const extra = Object.keys(rest).length > 0 ? ` ${JSON.stringify(rest)}` : '';
+    stream.write(`${time} ${level.toUpperCase().padEnd(5)} ${msg}${extra}\n`);
+  } else {
+    stream.write(`${JSON.stringify(record)}\n`);
+  }
+}
+
+// `bindings` may be a function so a child can follow state that changes later,
+// e.g. the room a socket joins after it connected.
+function createLogger(bindings = {}) {
+  const resolve = typeof bindings === 'function' ? bindings : () => bindings;
+  const log = (level) => (message, fields = {}) => {
+    if (LEVELS[level] < minLevel) return;
+    write(level, buildRecord(level, message, { ...resolve(), ...fields }));
+  };
+  return {
+    debug: log('debug'),
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error'),
+    child: (extra) => createLogger(() => ({
+      ...resolve(),
+      ...(typeof extra === 'function' ? extra() : extra)
+    }))
+  };
+}
+
+export const logger = createLogger();
@@ -0,0 +1,66 @@
+import { readFileSync } from 'fs';
+import { mkdir, rename, writeFile } from 'fs/promises';
+import path from 'path';
+import { logger } from './logger.js';
+
+// Saved meetings outlive their rooms: the live room is recreated from the record
+// whenever someone joins, so a recurring meeting keeps the same link.
+// Records are kept in memory and written back to a JSON file on every change.
+export function createMeetingStore(filePath) {
+  const meetings = load();
+  let pendingWrite = Promise.resolve();
+
+  function load() {
+    try {
+      const records = JSON.parse(readFileSync(filePath, 'utf8'));
+      logger.info('Loaded saved meetings', { count: records.length, filePath });
+      return new Map(records.map(record => [record.id, record]));
+    } catch (error) {
+      if (error.code !== 'ENOENT') {
+        logger.error('Failed to load saved meetings', { filePath, error });
+      }
+      return new Map();
+    }
+  }
+
+  // Writes are chained so an older snapshot never lands after a newer one. A failed write rejects
+  // for its caller but doesn't break the chain for later writes.
+  function save() {
+    const data = JSON.stringify(Array.from(meetings.values()), null, 2);
+    const tempPath = `${filePath}.tmp`;
+    const write = pendingWrite.then(async () => {
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(tempPath, data);
+      await rename(tempPath, filePath);
+    });
+    pendingWrite = write.catch(() => {});
+    return write;
+  }
+
+  return {
+    has: (id) => meetings.has(id),
+    get: (id) => meetings.get(id),
+    listByOwner: (ownerKeyHash) =>
+      Array.from(meetings.values()).filter(meeting => meeting.ownerKeyHash === ownerKeyHash),
+    // Changes that couldn't be written are undone, so memory never holds what the file doesn't
+    async add(meeting) {
+      meetings.set(meeting.id, meeting);
+      try {
+        await save();
+      } catch (error) {
+        meetings.delete(meeting.id);
+        throw error;
+      }
+    },
+    async remove(id) {
+      const meeting = meetings.get(id);
+      meetings.delete(id);
+      try {
+        await save();
+      } catch (error) {
+        if (meeting) meetings.set(id, meeting);
+        throw error;
+      }
+    }
+  };
+}
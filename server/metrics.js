@@ -0,0 +1,145 @@
+import client from 'prom-client';
+
+// Prometheus metrics for the signaling server, exposed on /metrics
+export const register = new client.Registry();
+client.collectDefaultMetrics({ register, prefix: 'videomeet_' });
+
+export const joinAttempts = new client.Counter({
+  name: 'videomeet_join_attempts_total',
+  help: 'join-room requests by outcome (joined, resumed, waiting, rejected)',
+  labelNames: ['outcome'],
+  registers: [register]
+});
+
+export const joinRejections = new client.Counter({
+  name: 'videomeet_join_rejections_total',
+  help: 'Rejected join-room requests by error code',
+  labelNames: ['code'],
+  registers: [register]
+});
+
+export const signalingMessages = new client.Counter({
+  name: 'videomeet_signaling_messages_total',
+  help: 'Valid client events received, by event name',
+  labelNames: ['event'],
+  registers: [register]
+});
+
+export const protocolErrors = new client.Counter({
+  name: 'videomeet_protocol_errors_total',
+  help: 'Client events rejected by protocol validation (malformed payload or unknown event)',
+  labelNames: ['kind'],
+  registers: [register]
+});
+
+export const failedForwards = new client.Counter({
+  name: 'videomeet_signaling_forward_failures_total',
+  help: 'Messages that could not be forwarded because the target participant was not in the room',
+  labelNames: ['event'],
+  registers: [register]
+});
+
+export const socketConnections = new client.Counter({
+  name: 'videomeet_socket_connections_total',
+  help: 'Socket.IO connections accepted',
+  registers: [register]
+});
+
+export const socketDisconnects = new client.Counter({
+  name: 'videomeet_socket_disconnects_total',
+  help: 'Socket.IO disconnections by reason',
+  labelNames: ['reason'],
+  registers: [register]
+});
+
+export const abuseViolations = new client.Counter({
+  name: 'videomeet_abuse_violations_total',
+  help: 'Requests refused by abuse protection, by kind (rate-limit, connection-limit, room-limit, origin, payload-size)',
+  labelNames: ['kind'],
+  registers: [register]
+});
+
+export const callDuration = new client.Histogram({
+  name: 'videomeet_call_duration_seconds',
+  help: 'Time participants spent in a room, observed when they leave',
+  buckets: [30, 60, 300, 600, 1800, 3600, 7200, 14400],
+  registers: [register]
+});
+
+// Summaries reported by clients from RTCPeerConnection.getStats(), one sample per peer connection
+export const callRoundTripTime = new client.Histogram({
+  name: 'videomeet_call_round_trip_time_seconds',
+  help: 'Client-reported round-trip time of the active ICE candidate pair',
+  buckets: [0.025, 0.05, 0.1, 0.15, 0.2, 0.3, 0.5, 1, 2],
+  registers: [register]
+});
+
+export const callJitter = new client.Histogram({
+  name: 'videomeet_call_jitter_seconds',
+  help: 'Client-reported worst inbound RTP jitter per peer connection',
+  buckets: [0.005, 0.01, 0.02, 0.03, 0.05, 0.1, 0.2],
+  registers: [register]
+});
+
+export const callPacketLoss = new client.Histogram({
+  name: 'videomeet_call_packet_loss_ratio',
+  help: 'Client-reported inbound packet loss since the previous report',
+  buckets: [0.001, 0.005, 0.01, 0.02, 0.05, 0.1, 0.2, 0.5],
+  registers: [register]
+});
+
+// Gauges are read from live server state at scrape time instead of being kept in sync by hand.
+// Room gauges come from the room store, so processes sharing Redis all report the same totals;
+// connected sockets are counted per process.
+export function registerStateGauges({ roomStore, io }) {
+  new client.Gauge({
+    name: 'videomeet_rooms',
+    help: 'Rooms currently open',
+    registers: [register],
+    async collect() {
+      this.set((await roomStore.list()).length);
+    }
+  });
+
+  new client.Gauge({
+    name: 'videomeet_participants',
+    help: 'Participants holding a seat, by connection state',
+    labelNames: ['state'],
+    registers: [register],
+    async collect() {
+      let connected = 0;
+      let reconnecting = 0;
+      (await roomStore.list()).forEach(room => room.participants.forEach(participant => {
+        if (participant.connected) {
+          connected++;
+        } else {
+          reconnecting++;
+        }
+      }));
+      this.set({ state: 'connected' }, connected);
+      this.set({ state: 'reconnecting' }, reconnecting);
+    }
+  });
+
+  new client.Gauge({
+    name: 'videomeet_waiting_participants',
+    help: 'People waiting in a waiting room for a host to admit them',
+    registers: [register],
+    async collect() {
+      let waiting = 0;
+      (await roomStore.list()).forEach(room => {
+        waiting += room.waiting.size;
+      });
+      this.set(waiting);
+    }
+  });
+
+  new client.Gauge({
+    name: 'videomeet_connected_sockets',
+    help: 'Socket.IO connections currently open on this process',
+    registers: [register],
+    collect() {
+      this.set(io.sockets.sockets.size);
+    }
+  });
+}
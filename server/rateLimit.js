@@ -0,0 +1,32 @@
+// Fixed-window counters keyed by socket ID, IP address or anything else.
+// Counts live in the process, so with several instances each one enforces its own budget.
+export function createRateLimiter({ limit, windowMs }) {
+  const windows = new Map();
+
+  // Forget finished windows so keys from long-gone sockets don't pile up
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    windows.forEach((window, key) => {
+      if (now >= window.resetAt) {
+        windows.delete(key);
+      }
+    });
+  }, windowMs);
+  sweep.unref();
+
+  return {
+    limit,
+    windowMs,
+    // Counts one hit for `key`; false once the key has gone over its limit in the current window
+    hit(key) {
+      const now = Date.now();
+      let window = windows.get(key);
+      if (!window || now >= window.resetAt) {
+        window = { count: 0, resetAt: now + windowMs };
+        windows.set(key, window);
+      }
+      window.count++;
+      return window.count <= limit;
+    }
+  };
+}
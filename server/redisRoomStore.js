@@ -0,0 +1,115 @@
+import { WatchError } from 'redis';
+import { deserializeRoom, serializeRoom } from './roomStore.js';
+
+// Room store shared by every server process connected to the same Redis.
+// Each room is one JSON string; updates use WATCH/MULTI and retry when another
+// process wrote the room in between.
+//
+// Room and message keys expire after `ttlSeconds`. Every write sets the expiry again, and live
+// processes call `touch` for the rooms they serve, so only rooms left behind by processes
+// that crashed run out.
+const KEY_PREFIX = 'videomeet:';
+const ROOM_INDEX_KEY = `${KEY_PREFIX}rooms`;
+const MAX_UPDATE_ATTEMPTS = 10;
+
+// Appends and trims the history only while the room exists, so a message racing the room's
+// deletion doesn't bring its history back
+const APPEND_MESSAGE_SCRIPT = `
+if redis.call('EXISTS', KEYS[1]) == 0 then
+  return 0
+end
+redis.call('RPUSH', KEYS[2], ARGV[1])
+redis.call('LTRIM', KEYS[2], -tonumber(ARGV[2]), -1)
+redis.call('EXPIRE', KEYS[2], ARGV[3])
+return 1
+`;
+
+const roomKey = (roomId) => `${KEY_PREFIX}room:${roomId}`;
+const messagesKey = (roomId) => `${KEY_PREFIX}room:${roomId}:messages`;
+
+export function createRedisRoomStore(client, { ttlSeconds }) {
+  return {
+    async get(roomId) {
+      const data = await client.get(roomKey(roomId));
+      return data ? deserializeRoom(data) : null;
+    },
+    async has(roomId) {
+      return (await client.exists(roomKey(roomId))) === 1;
+    },
+    async list() {
+      const roomIds = await client.sMembers(ROOM_INDEX_KEY);
+      if (roomIds.length === 0) {
+        return [];
+      }
+      const rooms = await client.mGet(roomIds.map(roomKey));
+      // Expired rooms are still in the index; drop them from it on the way
+      const expired = roomIds.filter((_, index) => !rooms[index]);
+      if (expired.length > 0) {
+        await client.sRem(ROOM_INDEX_KEY, expired);
+      }
+      return rooms.filter(Boolean).map(deserializeRoom);
+    },
+    async create(room) {
+      const created = await client.set(roomKey(room.roomId), serializeRoom(room), { NX: true, EX: ttlSeconds });
+      if (created === null) {
+        return false;
+      }
+      await client.sAdd(ROOM_INDEX_KEY, room.roomId);
+      return true;
+    },
+    // WATCH needs a connection of its own, so each update borrows an isolated one
+    update(roomId, fn) {
+      const key = roomKey(roomId);
+      return client.executeIsolated(async (isolated) => {
+        for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+          await isolated.watch(key);
+          const data = await isolated.get(key);
+          if (!data) {
+            await isolated.unwatch();
+            return null;
+          }
+          const room = deserializeRoom(data);
+          let deleted = false;
+          const result = fn(room, () => {
+            deleted = true;
+          });
+          const transaction = isolated.multi();
+          if (deleted) {
+            transaction.del([key, messagesKey(roomId)]).sRem(ROOM_INDEX_KEY, roomId);
+          } else {
+            transaction.set(key, serializeRoom(room), { EX: ttlSeconds });
+          }
+          try {
+            await transaction.exec();
+            return result;
+          } catch (error) {
+            if (!(error instanceof WatchError)) {
+              throw error;
+            }
+          }
+        }
+        throw new Error(`Room ${roomId} kept changing; gave up after ${MAX_UPDATE_ATTEMPTS} attempts`);
+      });
+    },
+    async getMessages(roomId) {
+      const messages = await client.lRange(messagesKey(roomId), 0, -1);
+      return messages.map(message => JSON.parse(message));
+    },
+    async appendMessage(roomId, message, max) {
+      await client.eval(APPEND_MESSAGE_SCRIPT, {
+        keys: [roomKey(roomId), messagesKey(roomId)],
+        arguments: [JSON.stringify(message), String(max), String(ttlSeconds)]
+      });
+    },
+    async touch(roomIds) {
+      if (roomIds.length === 0) {
+        return;
+      }
+      const transaction = client.multi();
+      roomIds.forEach(roomId => {
+        transaction.expire(roomKey(roomId), ttlSeconds).expire(messagesKey(roomId), ttlSeconds);
+      });
+      await transaction.exec();
+    }
+  };
+}
@@ -0,0 +1,63 @@
+import { randomInt } from 'crypto';
+
+// Short words that are hard to mishear or misspell when read out over a call
+const ADJECTIVES = [
+  'AMBER', 'BRAVE', 'BRISK', 'CALM', 'CLEAR', 'COOL', 'CRISP', 'DARING',
+  'EAGER', 'FAIR', 'FAST', 'FRESH', 'GENTLE', 'GLAD', 'GOLDEN', 'GRAND',
+  'GREEN', 'HAPPY', 'HONEST', 'JOLLY', 'KIND', 'LIVELY', 'LUCKY', 'MELLOW',
+  'MIGHTY', 'NOBLE', 'PLUCKY', 'PROUD', 'QUICK', 'QUIET', 'RAPID', 'ROYAL',
+  'RUSTY', 'SHINY', 'SILENT', 'SILVER', 'SMART', 'SNOWY', 'SOLID', 'SPARKY',
+  'STEADY', 'STURDY', 'SUNNY', 'SWIFT', 'TIDY', 'WARM', 'WISE', 'WITTY'
+];
+
+const NOUNS = [
+  'ANCHOR', 'BADGER', 'BEACON', 'BIRCH', 'BISON', 'CANYON', 'CEDAR', 'COMET',
+  'CORAL', 'CRANE', 'DELTA', 'FALCON', 'FERN', 'FJORD', 'FOREST', 'GARDEN',
+  'GLACIER', 'HARBOR', 'HAWK', 'HERON', 'ISLAND', 'LAGOON', 'LANTERN', 'MAPLE',
+  'MEADOW', 'MESA', 'MOOSE', 'ORCHID', 'OTTER', 'PEBBLE', 'PINE', 'PLANET',
+  'PRAIRIE', 'RAVEN', 'REEF', 'RIVER', 'ROBIN', 'SUMMIT', 'THUNDER', 'TIGER',
+  'TULIP', 'VALLEY', 'WALRUS', 'WILLOW', 'WOLF', 'ZEBRA', 'ORBIT', 'PIER'
+];
+
+// Leaves out 0/O, 1/I/L so short codes survive being read aloud or retyped
+const SHORT_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const SHORT_CODE_LENGTH = 6;
+
+// The words alone give 48^3 (about 17 bits) combinations, which is few enough to find open rooms
+// by guessing through `GET /api/rooms/:roomId`. The suffix brings a code to about 41 bits.
+const WORD_CODE_SUFFIX_LENGTH = 5;
+
+const pick = (list) => list[randomInt(list.length)];
+
+function randomChars(length) {
+  let code = '';
+  for (let i = 0; i < length; i++) {
+    code += pick(SHORT_CODE_ALPHABET);
+  }
+  return code;
+}
+
+function wordCode() {
+  return `${pick(ADJECTIVES)}-${pick(NOUNS)}-${pick(NOUNS)}-${randomChars(WORD_CODE_SUFFIX_LENGTH)}`;
+}
+
+function shortCode() {
+  return randomChars(SHORT_CODE_LENGTH);
+}
+
+// Resolves to a code for which `isTaken` (sync or async) is false. After a few collisions a random
+// suffix is added so a crowded code space can't loop forever.
+export async function generateRoomCode(format, isTaken) {
+  const generate = format === 'short' ? shortCode : wordCode;
+  for (let attempt = 0; attempt < 20; attempt++) {
+    const code = generate();
+    if (!(await isTaken(code))) {
+      return code;
+    }
+  }
+  let code;
+  do {
+    code = `${generate()}-${shortCode()}`;
+  } while (await isTaken(code));
+  return code;
+}
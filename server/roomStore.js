@@ -0,0 +1,103 @@
+// Room and participant state, kept behind a store so several server processes can share it.
+// Every store has the same async interface:
+//
+//   get(roomId)                          the room, or null
+//   has(roomId)
+//   list()                               every open room
+//   create(room)                         stores a new room; false if the code is already in use
+//   update(roomId, fn)                   runs fn(room, deleteRoom) atomically and resolves to its
+//                                        result, or to null when the room doesn't exist
+//   getMessages(roomId)                  the room's public chat history
+//   appendMessage(roomId, message, max)  adds to the history, keeping the last `max` messages;
+//                                        does nothing once the room is gone
+//   touch(roomIds)                       marks the rooms as still served by this process, for
+//                                        stores that expire rooms nobody keeps alive
+//
+// Rooms handed out are copies: changes only stick when made inside `update`. `fn` may run more
+// than once when another process changes the room at the same time, so it must not emit anything;
+// callers send events once the update has resolved.
+
+// Maps and Sets become arrays so rooms survive a round trip through JSON
+export function serializeRoom(room) {
+  return JSON.stringify({
+    ...room,
+    participants: Array.from(room.participants.values()),
+    waiting: Array.from(room.waiting.values()),
+    admittedTokens: Array.from(room.admittedTokens),
+    bannedTokens: Array.from(room.bannedTokens),
+    bannedIps: Array.from(room.bannedIps)
+  });
+}
+
+export function deserializeRoom(data) {
+  const room = JSON.parse(data);
+  return {
+    ...room,
+    participants: new Map(room.participants.map(participant => [participant.userId, participant])),
+    waiting: new Map(room.waiting.map(entry => [entry.id, entry])),
+    admittedTokens: new Set(room.admittedTokens),
+    bannedTokens: new Set(room.bannedTokens),
+    bannedIps: new Set(room.bannedIps)
+  };
+}
+
+// Process-local store for a single server. Rooms are kept serialized so it behaves
+// exactly like the Redis store: nothing changes without going through `update`.
+export function createMemoryRoomStore() {
+  const rooms = new Map();
+  const messages = new Map();
+
+  return {
+    async get(roomId) {
+      const data = rooms.get(roomId);
+      return data ? deserializeRoom(data) : null;
+    },
+    async has(roomId) {
+      return rooms.has(roomId);
+    },
+    async list() {
+      return Array.from(rooms.values(), deserializeRoom);
+    },
+    async create(room) {
+      if (rooms.has(room.roomId)) {
+        return false;
+      }
+      rooms.set(room.roomId, serializeRoom(room));
+      return true;
+    },
+    async update(roomId, fn) {
+      const data = rooms.get(roomId);
+      if (!data) {
+        return null;
+      }
+      const room = deserializeRoom(data);
+      let deleted = false;
+      const result = fn(room, () => {
+        deleted = true;
+      });
+      if (deleted) {
+        rooms.delete(roomId);
+        messages.delete(roomId);
+      } else {
+        rooms.set(roomId, serializeRoom(room));
+      }
+      return result;
+    },
+    async getMessages(roomId) {
+      return messages.get(roomId) ?? [];
+    },
+    async appendMessage(roomId, message, max) {
+      if (!rooms.has(roomId)) {
+        return;
+      }
+      const history = messages.get(roomId) ?? [];
+      history.push(message);
+      if (history.length > max) {
+        history.splice(0, history.length - max);
+      }
+      messages.set(roomId, history);
+    },
+    // Rooms here live and die with the process
+    async touch() {}
+  };
+}
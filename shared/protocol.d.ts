@@ -0,0 +1,400 @@
+// Type declarations for protocol.js (the runtime schemas live there)
+
+export declare const LIMITS: {
+  readonly ROOM_ID_MAX_LENGTH: number;
+  readonly USER_ID_MAX_LENGTH: number;
+  readonly USER_NAME_MAX_LENGTH: number;
+  readonly SESSION_TOKEN_MAX_LENGTH: number;
+  readonly PASSCODE_MAX_LENGTH: number;
+  readonly SDP_MAX_LENGTH: number;
+  readonly ICE_CANDIDATE_MAX_LENGTH: number;
+  readonly CHAT_MESSAGE_MAX_LENGTH: number;
+  readonly MAX_PEERS: number;
+};
+
+export type ParticipantRole = 'host' | 'participant';
+
+export type JoinErrorCode =
+  | 'room-full'
+  | 'room-locked'
+  | 'passcode-required'
+  | 'invalid-passcode'
+  | 'invalid-name'
+  | 'banned'
+  | 'room-not-found'
+  | 'rate-limited'
+  | 'invalid-request';
+
+export declare const PARTICIPANT_ROLES: readonly ParticipantRole[];
+export declare const JOIN_ERROR_CODES: readonly JoinErrorCode[];
+export declare const ROOM_CODE_FORMATS: readonly RoomCodeFormat[];
+export declare const MEETING_RECURRENCES: readonly MeetingRecurrence[];
+
+export declare function normalizeUserName(name: string): string | null;
+export declare function isValidRoomId(roomId: unknown): roomId is string;
+
+export type MediaKind = 'audio' | 'video';
+
+export interface PublicParticipant {
+  userId: string;
+  userName: string;
+  role: ParticipantRole;
+  isVideoOn: boolean;
+  isAudioOn: boolean;
+  isScreenSharing: boolean;
+  isReconnecting: boolean;
+}
+
+export interface ChatMessage {
+  id: string;
+  senderUserId: string;
+  senderName: string;
+  text: string;
+  timestamp: number;
+  targetUserId?: string;
+  targetName?: string;
+}
+
+export interface SessionDescription {
+  type: 'offer' | 'answer' | 'pranswer';
+  sdp: string;
+}
+
+export interface IceCandidate {
+  candidate: string;
+  sdpMid?: string | null;
+  sdpMLineIndex?: number | null;
+  usernameFragment?: string | null;
+}
+
+// --- Client → Server ---
+
+export interface JoinRoomPayload {
+  roomId: string;
+  userName: string;
+  sessionToken: string;
+  passcode?: string;
+  create?: boolean;
+  connectedPeers?: string[];
+}
+
+export interface RoomPayload {
+  roomId: string;
+}
+
+export interface LockRoomPayload {
+  roomId: string;
+  locked: boolean;
+}
+
+export interface SetRolePayload {
+  roomId: string;
+  targetUserId: string;
+  role: ParticipantRole;
+}
+
+export interface TargetPayload {
+  roomId: string;
+  targetUserId: string;
+}
+
+export interface RequestMediaOffPayload {
+  roomId: string;
+  targetUserId: string;
+  kind: MediaKind;
+}
+
+export interface RemoveParticipantPayload {
+  roomId: string;
+  targetUserId: string;
+  ban: boolean;
+}
+
+export interface SetWaitingRoomPayload {
+  roomId: string;
+  enabled: boolean;
+}
+
+export interface RespondToKnockPayload {
+  roomId: string;
+  waitingIds: string[];
+  admit: boolean;
+}
+
+export interface OfferPayload {
+  roomId: string;
+  targetUserId: string;
+  offer: SessionDescription;
+  isRebuild?: boolean;
+}
+
+export interface AnswerPayload {
+  roomId: string;
+  targetUserId: string;
+  answer: SessionDescription;
+}
+
+export interface IceCandidatePayload {
+  roomId: string;
+  targetUserId: string;
+  candidate: IceCandidate;
+}
+
+export interface ToggleVideoPayload {
+  roomId: string;
+  isVideoOn: boolean;
+}
+
+export interface ToggleAudioPayload {
+  roomId: string;
+  isAudioOn: boolean;
+}
+
+export interface ScreenShareStartedPayload {
+  roomId: string;
+}
+
+export interface ScreenShareStoppedPayload {
+  roomId: string;
+}
+
+export interface SendChatMessagePayload {
+  roomId: string;
+  text: string;
+  targetUserId?: string;
+}
+
+export interface CallQualitySample {
+  roundTripTime?: number;
+  jitter?: number;
+  packetLoss?: number;
+}
+
+export interface CallQualityReportPayload {
+  roomId: string;
+  samples: CallQualitySample[];
+}
+
+export interface RoomInfo {
+  roomId: string;
+  createdAt: number;
+  maxParticipants: number;
+  locked: boolean;
+  hasPasscode: boolean;
+  waitingRoom: boolean;
+  title?: string;
+}
+
+export interface WaitingEntry {
+  id: string;
+  userName: string;
+  requestedAt: number;
+  // Knocking from the network address of someone banned from the room
+  fromBannedAddress?: boolean;
+}
+
+export interface JoinError {
+  code: JoinErrorCode;
+  message: string;
+}
+
+// The server assigns the participant ID; clients never choose their own
+export type JoinRoomAck =
+  | { status: 'joined'; userId: string; role: ParticipantRole; room: RoomInfo; participants: PublicParticipant[] }
+  | { status: 'waiting' }
+  | { status: 'rejected'; error: JoinError };
+
+export interface ClientToServerEvents {
+  'ping': () => void;
+  'join-room': (payload: JoinRoomPayload, ack: (response: JoinRoomAck) => void) => void;
+  'leave-room': (payload: RoomPayload) => void;
+  'lock-room': (payload: LockRoomPayload) => void;
+  'set-role': (payload: SetRolePayload) => void;
+  'transfer-host': (payload: TargetPayload) => void;
+  'request-media-off': (payload: RequestMediaOffPayload) => void;
+  'remove-participant': (payload: RemoveParticipantPayload) => void;
+  'end-meeting': (payload: RoomPayload) => void;
+  'set-waiting-room': (payload: SetWaitingRoomPayload) => void;
+  'respond-to-knock': (payload: RespondToKnockPayload) => void;
+  'offer': (payload: OfferPayload) => void;
+  'answer': (payload: AnswerPayload) => void;
+  'ice-candidate': (payload: IceCandidatePayload) => void;
+  'toggle-video': (payload: ToggleVideoPayload) => void;
+  'toggle-audio': (payload: ToggleAudioPayload) => void;
+  'screen-share-started': (payload: ScreenShareStartedPayload) => void;
+  'screen-share-stopped': (payload: ScreenShareStoppedPayload) => void;
+  'chat-message': (payload: SendChatMessagePayload) => void;
+  'call-quality-report': (payload: CallQualityReportPayload) => void;
+}
+
+// --- Server → Client ---
+
+export interface ProtocolErrorPayload {
+  event: string;
+  message: string;
+}
+
+export interface UserRefPayload {
+  userId: string;
+}
+
+export interface UserInfoPayload {
+  userId: string;
+  userName: string;
+}
+
+export interface ServerToClientEvents {
+  'pong': () => void;
+  'protocol-error': (payload: ProtocolErrorPayload) => void;
+  'room-updated': (room: RoomInfo) => void;
+  'chat-history': (messages: ChatMessage[]) => void;
+  'chat-message': (message: ChatMessage) => void;
+  'user-joined': (payload: UserInfoPayload & { role: ParticipantRole }) => void;
+  'role-changed': (payload: { userId: string; role: ParticipantRole }) => void;
+  'media-off-requested': (payload: { kind: MediaKind; byUserName: string }) => void;
+  'removed-from-room': (payload: { banned: boolean; byUserName: string }) => void;
+  'meeting-ended': (payload: { byUserName: string }) => void;
+  'waiting-list': (entries: WaitingEntry[]) => void;
+  'knock-answered': (payload: { admitted: boolean }) => void;
+  'user-resumed': (payload: UserRefPayload) => void;
+  'user-reconnecting': (payload: UserRefPayload) => void;
+  'user-left': (payload: UserInfoPayload) => void;
+  'offer': (payload: { offer: SessionDescription; callerUserId: string; isRebuild: boolean }) => void;
+  'answer': (payload: { answer: SessionDescription; answererUserId: string }) => void;
+  'ice-candidate': (payload: { candidate: IceCandidate; senderUserId: string }) => void;
+  'user-video-toggled': (payload: { userId: string; isVideoOn: boolean }) => void;
+  'user-audio-toggled': (payload: { userId: string; isAudioOn: boolean }) => void;
+  'user-screen-share-started': (payload: UserInfoPayload) => void;
+  'user-screen-share-stopped': (payload: UserRefPayload) => void;
+}
+
+// --- HTTP API ---
+
+export type RoomCodeFormat = 'words' | 'short';
+
+// POST /api/rooms
+export interface CreateRoomRequest {
+  format?: RoomCodeFormat;
+  passcode?: string;
+}
+
+export interface CreateRoomResponse {
+  room: RoomInfo;
+}
+
+// GET /api/rooms/:roomId answers with RoomInfo, or 404 with this body
+export interface ApiError {
+  error: string;
+}
+
+export type MeetingRecurrence = 'none' | 'daily' | 'weekly';
+
+export interface MeetingSettings {
+  waitingRoom?: boolean;
+}
+
+export interface MeetingSchedule {
+  startsAt: number;
+  durationMinutes: number;
+  recurrence?: MeetingRecurrence;
+}
+
+// POST /api/meetings
+export interface CreateMeetingRequest {
+  title: string;
+  ownerName: string;
+  passcode?: string;
+  settings?: MeetingSettings;
+  schedule?: MeetingSchedule;
+}
+
+export interface Meeting {
+  id: string;
+  title: string;
+  ownerName: string;
+  hasPasscode: boolean;
+  settings: MeetingSettings;
+  schedule?: MeetingSchedule;
+  createdAt: number;
+  joinUrl: string;
+}
+
+// The owner key is only returned here; send it as a bearer token to list or delete meetings
+export interface CreateMeetingResponse {
+  meeting: Meeting;
+  ownerKey: string;
+}
+
+// GET /api/admin/rooms
+export interface AdminParticipant extends PublicParticipant {
+  socketId: string;
+  joinedAt: number;
+}
+
+export interface AdminRoom extends RoomInfo {
+  participants: AdminParticipant[];
+  waiting: WaitingEntry[];
+}
+
+export interface AdminRoomsResponse {
+  rooms: AdminRoom[];
+  connectedSockets: number;
+}
+
+// GET /api/ice-config
+export interface IceServer {
+  urls: string | string[];
+  username?: string;
+  credential?: string;
+}
+
+// TURN credentials stop working at expiresAt (ms since epoch); null when nothing expires
+export interface IceConfig {
+  iceServers: IceServer[];
+  iceTransportPolicy: 'all' | 'relay';
+  expiresAt: number | null;
+}
+
+export interface ApiRequests {
+  'POST /api/rooms': CreateRoomRequest;
+  'POST /api/meetings': CreateMeetingRequest;
+}
+
+export type ValidationResult<T = unknown> =
+  | { ok: true; value: T }
+  | { ok: false; error: string };
+
+type PayloadOf<F> = F extends () => void ? undefined : F extends (payload: infer P, ...rest: never[]) => void ? P : never;
+
+export type ClientEventPayload<E extends keyof ClientToServerEvents> = PayloadOf<ClientToServerEvents[E]>;
+export type ServerEventPayload<E extends keyof ServerToClientEvents> = PayloadOf<ServerToClientEvents[E]>;
+
+export declare const CLIENT_EVENT_SCHEMAS: Record<keyof ClientToServerEvents, unknown>;
+export declare const SERVER_EVENT_SCHEMAS: Record<keyof ServerToClientEvents, unknown>;
+
+export interface AckResponses {
+  'join-room': JoinRoomAck;
+}
+
+export declare const ACK_SCHEMAS: Record<keyof AckResponses, unknown>;
+export declare const API_REQUEST_SCHEMAS: Record<keyof ApiRequests, unknown>;
+
+export declare function validateClientEvent<E extends keyof ClientToServerEvents>(
+  event: E,
+  payload: unknown
+): ValidationResult<ClientEventPayload<E>>;
+
+export declare function validateServerEvent<E extends keyof ServerToClientEvents>(
+  event: E,
+  payload: unknown
+): ValidationResult<ServerEventPayload<E>>;
+
+export declare function validateAck<E extends keyof AckResponses>(
+  event: E,
+  response: unknown
+): ValidationResult<AckResponses[E]>;
+
+export declare function validateApiRequest<R extends keyof ApiRequests>(
+  route: R,
+  body: unknown
+): ValidationResult<ApiRequests[R]>;
@@ -0,0 +1,393 @@
+// Signaling protocol shared by the React client and the Socket.IO server.
+// Every event and its payload shape is declared once here; types live in protocol.d.ts.
+
+export const LIMITS = {
+  ROOM_ID_MAX_LENGTH: 64,
+  USER_ID_MAX_LENGTH: 64,
+  USER_NAME_MAX_LENGTH: 50,
+  SESSION_TOKEN_MAX_LENGTH: 128,
+  PASSCODE_MAX_LENGTH: 64,
+  SDP_MAX_LENGTH: 100000,
+  ICE_CANDIDATE_MAX_LENGTH: 2048,
+  CHAT_MESSAGE_MAX_LENGTH: 1000,
+  MAX_PEERS: 100,
+  MEETING_TITLE_MAX_LENGTH: 100,
+  MEETING_MAX_DURATION_MINUTES: 24 * 60
+};
+
+export const PARTICIPANT_ROLES = ['host', 'participant'];
+
+export const ROOM_CODE_FORMATS = ['words', 'short'];
+
+export const MEETING_RECURRENCES = ['none', 'daily', 'weekly'];
+
+// Reasons the server can refuse a join-room request
+export const JOIN_ERROR_CODES = [
+  'room-full',
+  'room-locked',
+  'passcode-required',
+  'invalid-passcode',
+  'invalid-name',
+  'banned',
+  'room-not-found',
+  'rate-limited',
+  'invalid-request'
+];
+
+const ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+// Room codes are issued upper-case by the server; clients upper-case what users type
+export function isValidRoomId(roomId) {
+  return typeof roomId === 'string' &&
+    roomId.length > 0 &&
+    roomId.length <= LIMITS.ROOM_ID_MAX_LENGTH &&
+    ID_PATTERN.test(roomId);
+}
+
+// Display names are trimmed, stripped of control characters and must fit the length limit.
+// Returns null when nothing usable is left.
+export function normalizeUserName(name) {
+  if (typeof name !== 'string') return null;
+  const normalized = name.replace(/[\u0000-\u001f\u007f]/g, '').replace(/\s+/g, ' ').trim();
+  if (!normalized || normalized.length > LIMITS.USER_NAME_MAX_LENGTH) return null;
+  return normalized;
+}
+
+// --- Schema helpers -------------------------------------------------------
+// A validator returns an error message, or null when the value is valid.
+
+const isPlainObject = (value) =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function string({ min = 1, max, pattern, trim = false } = {}) {
+  return (value, path) => {
+    if (typeof value !== 'string') return `${path} must be a string`;
+    const checked = trim ? value.trim() : value;
+    if (checked.length < min) return `${path} must not be empty`;
+    if (max !== undefined && checked.length > max) return `${path} must be at most ${max} characters`;
+    if (pattern && !pattern.test(checked)) return `${path} has an invalid format`;
+    return null;
+  };
+}
+
+function boolean() {
+  return (value, path) => (typeof value === 'boolean' ? null : `${path} must be a boolean`);
+}
+
+function number({ integer = false, min, max } = {}) {
+  return (value, path) => {
+    if (typeof value !== 'number' || Number.isNaN(value)) return `${path} must be a number`;
+    if (integer && !Number.isInteger(value)) return `${path} must be an integer`;
+    if (min !== undefined && value < min) return `${path} must be at least ${min}`;
+    if (max !== undefined && value > max) return `${path} must be at most ${max}`;
+    return null;
+  };
+}
+
+function oneOf(values) {
+  return (value, path) => (values.includes(value) ? null : `${path} must be one of ${values.join(', ')}`);
+}
+
+function optional(validator) {
+  const wrapped = (value, path) => (value === undefined || value === null ? null : validator(value, path));
+  wrapped.shape = validator.shape;
+  wrapped.item = validator.item;
+  wrapped.select = validator.select;
+  return wrapped;
+}
+
+function arrayOf(item, { max } = {}) {
+  const validator = (value, path) => {
+    if (!Array.isArray(value)) return `${path} must be an array`;
+    if (max !== undefined && value.length > max) return `${path} must have at most ${max} items`;
+    for (let i = 0; i < value.length; i++) {
+      const error = item(value[i], `${path}[${i}]`);
+      if (error) return error;
+    }
+    return null;
+  };
+  validator.item = item;
+  return validator;
+}
+
+function object(shape) {
+  const validator = (value, path) => {
+    if (!isPlainObject(value)) return `${path} must be an object`;
+    for (const [key, field] of Object.entries(shape)) {
+      const error = field(value[key], path ? `${path}.${key}` : key);
+      if (error) return error;
+    }
+    return null;
+  };
+  validator.shape = shape;
+  return validator;
+}
+
+// Picks the object schema by the value of `key`, e.g. `status: 'joined'` vs `status: 'rejected'`
+function variant(key, branches) {
+  const select = (value) => (isPlainObject(value) ? branches[String(value[key])] : undefined);
+  const validator = (value, path) => {
+    if (!isPlainObject(value)) return `${path} must be an object`;
+    const branch = select(value);
+    if (!branch) return `${path}.${key} must be one of ${Object.keys(branches).join(', ')}`;
+    return branch(value, path);
+  };
+  validator.select = select;
+  return validator;
+}
+
+// Drop any fields the schema does not declare so they are never forwarded
+function sanitize(validator, value) {
+  if (validator.select) {
+    const branch = validator.select(value);
+    return branch ? sanitize(branch, value) : value;
+  }
+  if (validator.shape && isPlainObject(value)) {
+    const result = {};
+    for (const [key, field] of Object.entries(validator.shape)) {
+      if (value[key] !== undefined) {
+        result[key] = sanitize(field, value[key]);
+      }
+    }
+    return result;
+  }
+  if (validator.item && Array.isArray(value)) {
+    return value.map(item => sanitize(validator.item, item));
+  }
+  return value;
+}
+
+// --- Field types ----------------------------------------------------------
+
+const roomId = string({ max: LIMITS.ROOM_ID_MAX_LENGTH, pattern: ID_PATTERN });
+const userId = string({ max: LIMITS.USER_ID_MAX_LENGTH, pattern: ID_PATTERN });
+const userName = string({ max: LIMITS.USER_NAME_MAX_LENGTH, trim: true });
+const sessionToken = string({ max: LIMITS.SESSION_TOKEN_MAX_LENGTH });
+const timestamp = number({ integer: true, min: 0 });
+
+const sessionDescription = object({
+  type: oneOf(['offer', 'answer', 'pranswer']),
+  sdp: string({ min: 0, max: LIMITS.SDP_MAX_LENGTH })
+});
+
+const iceCandidate = object({
+  candidate: string({ min: 0, max: LIMITS.ICE_CANDIDATE_MAX_LENGTH }),
+  sdpMid: optional(string({ min: 0, max: 64 })),
+  sdpMLineIndex: optional(number({ integer: true, min: 0, max: 1024 })),
+  usernameFragment: optional(string({ min: 0, max: 256 }))
+});
+
+const role = oneOf(PARTICIPANT_ROLES);
+const mediaKind = oneOf(['audio', 'video']);
+
+const participant = object({
+  userId,
+  userName,
+  role,
+  isVideoOn: boolean(),
+  isAudioOn: boolean(),
+  isScreenSharing: boolean(),
+  isReconnecting: boolean()
+});
+
+const chatMessage = object({
+  id: string({ max: 64 }),
+  senderUserId: userId,
+  senderName: userName,
+  text: string({ max: LIMITS.CHAT_MESSAGE_MAX_LENGTH }),
+  timestamp,
+  targetUserId: optional(userId),
+  targetName: optional(userName)
+});
+
+const roomInfo = object({
+  roomId,
+  createdAt: timestamp,
+  maxParticipants: number({ integer: true, min: 1 }),
+  locked: boolean(),
+  hasPasscode: boolean(),
+  waitingRoom: boolean(),
+  // Only set for rooms opened from a saved meeting
+  title: optional(string({ max: LIMITS.MEETING_TITLE_MAX_LENGTH }))
+});
+
+const waitingEntry = object({
+  id: userId,
+  userName,
+  requestedAt: timestamp,
+  fromBannedAddress: optional(boolean())
+});
+
+// Times are in seconds, as reported by getStats(); loss is a 0-1 ratio
+const callQualitySample = object({
+  roundTripTime: optional(number({ min: 0, max: 60 })),
+  jitter: optional(number({ min: 0, max: 60 })),
+  packetLoss: optional(number({ min: 0, max: 1 }))
+});
+
+// --- Events ---------------------------------------------------------------
+// `null` means the event carries no payload.
+
+export const CLIENT_EVENT_SCHEMAS = {
+  'ping': null,
+  'join-room': object({
+    roomId,
+    // Checked with normalizeUserName by the server so a bad name gets its own error code
+    userName: string({ min: 0, max: 256 }),
+    sessionToken,
+    // Sets the passcode when this join creates the room, otherwise it is checked against it
+    passcode: optional(string({ min: 0, max: LIMITS.PASSCODE_MAX_LENGTH })),
+    // Without it, joining a room the server doesn't know fails with room-not-found
+    create: optional(boolean()),
+    connectedPeers: optional(arrayOf(userId, { max: LIMITS.MAX_PEERS }))
+  }),
+  'lock-room': object({ roomId, locked: boolean() }),
+  // Host-only moderation; the server checks the sender's role for each of these
+  'set-role': object({ roomId, targetUserId: userId, role }),
+  'transfer-host': object({ roomId, targetUserId: userId }),
+  'request-media-off': object({ roomId, targetUserId: userId, kind: mediaKind }),
+  'remove-participant': object({ roomId, targetUserId: userId, ban: boolean() }),
+  'end-meeting': object({ roomId }),
+  'set-waiting-room': object({ roomId, enabled: boolean() }),
+  'respond-to-knock': object({
+    roomId,
+    waitingIds: arrayOf(userId, { max: LIMITS.MAX_PEERS }),
+    admit: boolean()
+  }),
+  'leave-room': object({ roomId }),
+  'offer': object({
+    roomId,
+    targetUserId: userId,
+    offer: sessionDescription,
+    isRebuild: optional(boolean())
+  }),
+  'answer': object({
+    roomId,
+    targetUserId: userId,
+    answer: sessionDescription
+  }),
+  'ice-candidate': object({
+    roomId,
+    targetUserId: userId,
+    candidate: iceCandidate
+  }),
+  'toggle-video': object({ roomId, isVideoOn: boolean() }),
+  'toggle-audio': object({ roomId, isAudioOn: boolean() }),
+  'screen-share-started': object({ roomId }),
+  'screen-share-stopped': object({ roomId }),
+  'chat-message': object({
+    roomId,
+    text: string({ max: LIMITS.CHAT_MESSAGE_MAX_LENGTH, trim: true }),
+    targetUserId: optional(userId)
+  }),
+  // Periodic summary of the sender's peer connections, aggregated into server metrics
+  'call-quality-report': object({
+    roomId,
+    samples: arrayOf(callQualitySample, { max: LIMITS.MAX_PEERS })
+  })
+};
+
+export const SERVER_EVENT_SCHEMAS = {
+  'pong': null,
+  'protocol-error': object({ event: string({ max: 64 }), message: string({ max: 256 }) }),
+  'chat-history': arrayOf(chatMessage),
+  'chat-message': chatMessage,
+  'room-updated': roomInfo,
+  'user-joined': object({ userId, userName, role }),
+  'role-changed': object({ userId, role }),
+  'media-off-requested': object({ kind: mediaKind, byUserName: userName }),
+  'removed-from-room': object({ banned: boolean(), byUserName: userName }),
+  'meeting-ended': object({ byUserName: userName }),
+  // Sent to hosts whenever someone starts or stops waiting
+  'waiting-list': arrayOf(waitingEntry, { max: LIMITS.MAX_PEERS }),
+  'knock-answered': object({ admitted: boolean() }),
+  'user-resumed': object({ userId }),
+  'user-reconnecting': object({ userId }),
+  'user-left': object({ userId, userName }),
+  'offer': object({ offer: sessionDescription, callerUserId: userId, isRebuild: boolean() }),
+  'answer': object({ answer: sessionDescription, answererUserId: userId }),
+  'ice-candidate': object({ candidate: iceCandidate, senderUserId: userId }),
+  'user-video-toggled': object({ userId, isVideoOn: boolean() }),
+  'user-audio-toggled': object({ userId, isAudioOn: boolean() }),
+  'user-screen-share-started': object({ userId, userName }),
+  'user-screen-share-stopped': object({ userId })
+};
+
+// Responses delivered through Socket.IO acknowledgements, keyed by the client event
+export const ACK_SCHEMAS = {
+  'join-room': variant('status', {
+    joined: object({
+      status: oneOf(['joined']),
+      userId,
+      role,
+      room: roomInfo,
+      participants: arrayOf(participant, { max: LIMITS.MAX_PEERS })
+    }),
+    // The room has a waiting room; wait for `knock-answered` before joining again
+    waiting: object({
+      status: oneOf(['waiting'])
+    }),
+    rejected: object({
+      status: oneOf(['rejected']),
+      error: object({ code: oneOf(JOIN_ERROR_CODES), message: string({ max: 256 }) })
+    })
+  })
+};
+
+// --- HTTP API -------------------------------------------------------------
+// JSON request bodies, keyed by route.
+
+const passcode = string({ min: 0, max: LIMITS.PASSCODE_MAX_LENGTH });
+
+export const API_REQUEST_SCHEMAS = {
+  'POST /api/rooms': object({
+    format: optional(oneOf(ROOM_CODE_FORMATS)),
+    passcode: optional(passcode)
+  }),
+  'POST /api/meetings': object({
+    title: string({ max: LIMITS.MEETING_TITLE_MAX_LENGTH, trim: true }),
+    // Checked with normalizeUserName by the server, like join-room
+    ownerName: string({ min: 0, max: 256 }),
+    passcode: optional(passcode),
+    // Applied every time the meeting's room is opened
+    settings: optional(object({
+      waitingRoom: optional(boolean())
+    })),
+    schedule: optional(object({
+      startsAt: timestamp,
+      durationMinutes: number({ integer: true, min: 1, max: LIMITS.MEETING_MAX_DURATION_MINUTES }),
+      recurrence: optional(oneOf(MEETING_RECURRENCES))
+    }))
+  })
+};
+
+function validate(schemas, event, payload, path = 'payload') {
+  if (!Object.prototype.hasOwnProperty.call(schemas, event)) {
+    return { ok: false, error: `Unknown event: ${event}` };
+  }
+  const schema = schemas[event];
+  if (schema === null) {
+    return { ok: true, value: undefined };
+  }
+  const error = schema(payload, path);
+  if (error) {
+    return { ok: false, error };
+  }
+  return { ok: true, value: sanitize(schema, payload) };
+}
+
+export function validateClientEvent(event, payload) {
+  return validate(CLIENT_EVENT_SCHEMAS, event, payload);
+}
+
+export function validateServerEvent(event, payload) {
+  return validate(SERVER_EVENT_SCHEMAS, event, payload);
+}
+
+export function validateAck(event, response) {
+  return validate(ACK_SCHEMAS, event, response);
+}
+
+export function validateApiRequest(route, body) {
+  return validate(API_REQUEST_SCHEMAS, route, body, 'body');
+}
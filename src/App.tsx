@@ -1,46 +1,73 @@
 import React, { useState } from 'react';
 import { JoinRoom } from './components/JoinRoom';
 import { VideoCall } from './components/VideoCall';
+import { AdminDashboard } from './components/AdminDashboard';
+import { JoinMediaOptions, DEFAULT_DEVICES } from './utils/media';
+import { logger } from './utils/logger';
 
 interface CallState {
   isInCall: boolean;
   roomId: string;
   userName: string;
+  passcode: string;
+  create: boolean;
+  media: JoinMediaOptions;
 }
 
+const DEFAULT_MEDIA: JoinMediaOptions = {
+  isVideoOn: true,
+  isAudioOn: true,
+  devices: DEFAULT_DEVICES
+};
+
+// The server serves the app for every path, so /admin is handled here
+const isAdminPage = window.location.pathname.replace(/\/$/, '') === '/admin';
+
 function App() {
   const [callState, setCallState] = useState<CallState>({
     isInCall: false,
     roomId: '',
-    userName: ''
+    userName: '',
+    passcode: '',
+    create: false,
+    media: DEFAULT_MEDIA
   });
 
-  const handleJoinRoom = (roomId: string, userName: string) => {
-    console.log('Joining room:', roomId, 'as:', userName);
+  const handleJoinRoom = (roomId: string, userName: string, media: JoinMediaOptions, passcode: string, create: boolean) => {
+    logger.info('Joining room', { roomId, userName });
     setCallState({
       isInCall: true,
       roomId,
-      userName
+      userName,
+      passcode,
+      create,
+      media
     });
   };
 
   const handleLeaveCall = () => {
-    console.log('Leaving call');
+    logger.info('Leaving call');
     setCallState({
       isInCall: false,
       roomId: '',
-      userName: ''
+      userName: '',
+      passcode: '',
+      create: false,
+      media: DEFAULT_MEDIA
     });
   };
 
-  console.log('App render - callState:', callState);
-
   return (
     <div className="App min-h-screen">
-      {callState.isInCall ? (
+      {isAdminPage ? (
+        <AdminDashboard />
+      ) : callState.isInCall ? (
         <VideoCall
           roomId={callState.roomId}
           userName={callState.userName}
+          passcode={callState.passcode}
+          create={callState.create}
+          initialMedia={callState.media}
           onLeaveCall={handleLeaveCall}
         />
       ) : (
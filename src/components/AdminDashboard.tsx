@@ -0,0 +1,284 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Shield,
+  RefreshCw,
+  LogOut,
+  Lock,
+  KeyRound,
+  DoorClosed,
+  Crown,
+  Mic,
+  MicOff,
+  Video,
+  VideoOff,
+  Monitor,
+  Unplug,
+  XCircle
+} from 'lucide-react';
+import { AdminRoomsResponse } from '../../shared/protocol';
+import { AdminApiError, closeRoomAsAdmin, disconnectSocketAsAdmin, fetchAdminRooms } from '../utils/admin';
+import { logger } from '../utils/logger';
+
+const REFRESH_INTERVAL_MS = 3000;
+const TOKEN_STORAGE_KEY = 'videomeet:admin-token';
+
+const loadToken = () => {
+  try {
+    return sessionStorage.getItem(TOKEN_STORAGE_KEY) ?? '';
+  } catch {
+    return '';
+  }
+};
+
+const storeToken = (token: string) => {
+  try {
+    if (token) {
+      sessionStorage.setItem(TOKEN_STORAGE_KEY, token);
+    } else {
+      sessionStorage.removeItem(TOKEN_STORAGE_KEY);
+    }
+  } catch (error) {
+    logger.warn('Failed to store admin token', { error });
+  }
+};
+
+const formatDuration = (since: number, now: number) => {
+  const minutes = Math.max(0, Math.floor((now - since) / 60000));
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+export const AdminDashboard: React.FC = () => {
+  const [token, setToken] = useState(loadToken);
+  const [tokenDraft, setTokenDraft] = useState('');
+  const [data, setData] = useState<AdminRoomsResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [lastUpdated, setLastUpdated] = useState<number | null>(null);
+
+  const signOut = useCallback((message: string | null = null) => {
+    storeToken('');
+    setToken('');
+    setData(null);
+    setError(message);
+  }, []);
+
+  const refresh = useCallback(async (signal?: AbortSignal) => {
+    if (!token) return;
+    try {
+      const next = await fetchAdminRooms(token, signal);
+      setData(next);
+      setError(null);
+      setLastUpdated(Date.now());
+    } catch (err) {
+      if (signal?.aborted) return;
+      if (err instanceof AdminApiError && err.status === 401) {
+        signOut('The admin token was rejected.');
+        return;
+      }
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }, [token, signOut]);
+
+  // Poll while signed in so the dashboard follows what happens on the server
+  useEffect(() => {
+    if (!token) return;
+    const controller = new AbortController();
+    refresh(controller.signal);
+    const interval = setInterval(() => refresh(controller.signal), REFRESH_INTERVAL_MS);
+    return () => {
+      clearInterval(interval);
+      controller.abort();
+    };
+  }, [token, refresh]);
+
+  const handleSignIn = (e: React.FormEvent) => {
+    e.preventDefault();
+    const next = tokenDraft.trim();
+    if (!next) return;
+    storeToken(next);
+    setToken(next);
+    setTokenDraft('');
+    setError(null);
+  };
+
+  const runAction = async (action: () => Promise<void>) => {
+    try {
+      await action();
+      await refresh();
+    } catch (err) {
+      if (err instanceof AdminApiError && err.status === 401) {
+        signOut('The admin token was rejected.');
+        return;
+      }
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const closeRoom = (roomId: string) => {
+    if (!window.confirm(`Close room ${roomId}? Everyone in it will be sent home.`)) return;
+    runAction(() => closeRoomAsAdmin(token, roomId));
+  };
+
+  const disconnectSocket = (socketId: string, userName: string) => {
+    if (!window.confirm(`Disconnect ${userName}? They can reconnect and resume their seat.`)) return;
+    runAction(() => disconnectSocketAsAdmin(token, socketId));
+  };
+
+  if (!token) {
+    return (
+      <div className="min-h-screen bg-gray-900 flex items-center justify-center p-4">
+        <form onSubmit={handleSignIn} className="w-full max-w-sm bg-gray-800 rounded-lg p-6 space-y-4">
+          <div className="flex items-center space-x-2 text-white">
+            <Shield size={20} />
+            <h1 className="text-lg font-semibold">VideoMeet Admin</h1>
+          </div>
+          <input
+            type="password"
+            value={tokenDraft}
+            onChange={(e) => setTokenDraft(e.target.value)}
+            placeholder="Admin token"
+            autoComplete="off"
+            className="w-full px-3 py-2 bg-gray-700 text-white rounded border border-gray-600 focus:outline-none focus:border-blue-500"
+          />
+          {error && <p className="text-red-400 text-sm">{error}</p>}
+          <button
+            type="submit"
+            disabled={!tokenDraft.trim()}
+            className="w-full py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded transition-colors"
+          >
+            Sign in
+          </button>
+        </form>
+      </div>
+    );
+  }
+
+  const now = Date.now();
+  const rooms = data?.rooms ?? [];
+  const participantCount = rooms.reduce((total, room) => total + room.participants.length, 0);
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white">
+      <div className="bg-gray-800 px-4 py-3 flex justify-between items-center">
+        <div className="flex items-center space-x-2">
+          <Shield size={20} />
+          <h1 className="text-lg font-semibold">VideoMeet Admin</h1>
+        </div>
+        <div className="flex items-center space-x-4 text-sm text-gray-400">
+          {lastUpdated && <span>Updated {formatTime(lastUpdated)}</span>}
+          <button
+            onClick={() => refresh()}
+            className="p-1 hover:text-white transition-colors"
+            title="Refresh now"
+          >
+            <RefreshCw size={16} />
+          </button>
+          <button
+            onClick={() => signOut()}
+            className="flex items-center hover:text-white transition-colors"
+          >
+            <LogOut size={16} className="mr-1" />
+            Sign out
+          </button>
+        </div>
+      </div>
+
+      <div className="p-4 space-y-4">
+        {error && (
+          <div className="bg-red-900 text-red-100 text-sm px-4 py-2 rounded">{error}</div>
+        )}
+
+        <div className="flex space-x-6 text-sm text-gray-300">
+          <span><span className="text-white font-semibold">{rooms.length}</span> rooms</span>
+          <span><span className="text-white font-semibold">{participantCount}</span> participants</span>
+          <span><span className="text-white font-semibold">{data?.connectedSockets ?? 0}</span> connected sockets</span>
+        </div>
+
+        {data && rooms.length === 0 && (
+          <p className="text-gray-500">No active rooms.</p>
+        )}
+
+        {rooms.map(room => (
+          <div key={room.roomId} className="bg-gray-800 rounded-lg">
+            <div className="px-4 py-3 border-b border-gray-700 flex justify-between items-center">
+              <div>
+                <div className="flex items-center space-x-2">
+                  <h2 className="font-semibold">{room.title ? `${room.title} (${room.roomId})` : room.roomId}</h2>
+                  {room.locked && <Lock size={14} className="text-red-300" aria-label="Locked" />}
+                  {room.hasPasscode && <KeyRound size={14} className="text-yellow-300" aria-label="Passcode" />}
+                  {room.waitingRoom && <DoorClosed size={14} className="text-blue-300" aria-label="Waiting room" />}
+                </div>
+                <p className="text-xs text-gray-400">
+                  Open for {formatDuration(room.createdAt, now)} · {room.participants.length}/{room.maxParticipants} participants
+                  {room.waiting.length > 0 && ` · ${room.waiting.length} waiting`}
+                </p>
+              </div>
+              <button
+                onClick={() => closeRoom(room.roomId)}
+                className="flex items-center px-3 py-1 bg-red-600 hover:bg-red-700 text-sm rounded transition-colors"
+              >
+                <XCircle size={14} className="mr-1" />
+                Close room
+              </button>
+            </div>
+
+            {room.participants.length > 0 && (
+              <table className="w-full text-sm">
+                <thead className="text-left text-xs text-gray-400">
+                  <tr>
+                    <th className="px-4 py-2 font-normal">Name</th>
+                    <th className="px-4 py-2 font-normal">Joined</th>
+                    <th className="px-4 py-2 font-normal">Media</th>
+                    <th className="px-4 py-2 font-normal">Connection</th>
+                    <th className="px-4 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {room.participants.map(participant => (
+                    <tr key={participant.userId} className="border-t border-gray-700">
+                      <td className="px-4 py-2">
+                        <span className="flex items-center">
+                          {participant.role === 'host' && <Crown size={12} className="text-yellow-300 mr-1" />}
+                          {participant.userName}
+                        </span>
+                      </td>
+                      <td className="px-4 py-2 text-gray-300">
+                        {formatTime(participant.joinedAt)} ({formatDuration(participant.joinedAt, now)})
+                      </td>
+                      <td className="px-4 py-2">
+                        <span className="flex items-center space-x-2 text-gray-300">
+                          {participant.isAudioOn ? <Mic size={14} /> : <MicOff size={14} className="text-red-400" />}
+                          {participant.isVideoOn ? <Video size={14} /> : <VideoOff size={14} className="text-red-400" />}
+                          {participant.isScreenSharing && <Monitor size={14} className="text-green-400" aria-label="Sharing screen" />}
+                        </span>
+                      </td>
+                      <td className="px-4 py-2">
+                        {participant.isReconnecting
+                          ? <span className="text-yellow-300">Reconnecting</span>
+                          : <span className="text-green-400">Connected</span>}
+                      </td>
+                      <td className="px-4 py-2 text-right">
+                        {!participant.isReconnecting && (
+                          <button
+                            onClick={() => disconnectSocket(participant.socketId, participant.userName)}
+                            className="inline-flex items-center px-2 py-1 text-xs text-gray-300 hover:text-white hover:bg-gray-700 rounded transition-colors"
+                          >
+                            <Unplug size={12} className="mr-1" />
+                            Disconnect
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
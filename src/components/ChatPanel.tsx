@@ -0,0 +1,135 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Send, X, Lock } from 'lucide-react';
+import { ChatMessage, LIMITS } from '../../shared/protocol';
+
+interface ChatRecipient {
+  userId: string;
+  userName: string;
+}
+
+interface ChatPanelProps {
+  messages: ChatMessage[];
+  recipients: ChatRecipient[];
+  selfUserId: string;
+  onSendMessage: (text: string, targetUserId?: string) => void;
+  onClose: () => void;
+}
+
+const formatTime = (timestamp: number) => {
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+};
+
+export const ChatPanel: React.FC<ChatPanelProps> = ({
+  messages,
+  recipients,
+  selfUserId,
+  onSendMessage,
+  onClose
+}) => {
+  const [draft, setDraft] = useState('');
+  const [targetUserId, setTargetUserId] = useState('');
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // 新しいメッセージが来たら一番下までスクロール
+  useEffect(() => {
+    if (listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight;
+    }
+  }, [messages]);
+
+  // 宛先の参加者が退出したら全員宛てに戻す
+  useEffect(() => {
+    if (targetUserId && !recipients.some(r => r.userId === targetUserId)) {
+      setTargetUserId('');
+    }
+  }, [recipients, targetUserId]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = draft.trim();
+    if (!text) return;
+    onSendMessage(text, targetUserId || undefined);
+    setDraft('');
+  };
+
+  return (
+    <div className="w-80 bg-gray-800 border-l border-gray-700 flex flex-col">
+      <div className="p-4 border-b border-gray-700 flex justify-between items-center">
+        <h3 className="text-white font-semibold">チャット</h3>
+        <button
+          onClick={onClose}
+          className="p-1 text-gray-400 hover:text-white transition-colors"
+          title="閉じる"
+        >
+          <X size={18} />
+        </button>
+      </div>
+
+      <div ref={listRef} className="flex-1 overflow-y-auto p-4 space-y-3">
+        {messages.length === 0 && (
+          <p className="text-gray-500 text-sm text-center">まだメッセージはありません</p>
+        )}
+        {messages.map(message => {
+          const isOwn = message.senderUserId === selfUserId;
+          const isPrivate = Boolean(message.targetUserId);
+          return (
+            <div key={message.id} className={`flex flex-col ${isOwn ? 'items-end' : 'items-start'}`}>
+              <div className="flex items-center space-x-2 text-xs text-gray-400 mb-1">
+                <span className="font-medium text-gray-300">{isOwn ? 'あなた' : message.senderName}</span>
+                {isPrivate && (
+                  <span className="flex items-center text-purple-300">
+                    <Lock size={10} className="mr-1" />
+                    {isOwn ? `${message.targetName}へ` : 'あなたへ'}
+                  </span>
+                )}
+                <span>{formatTime(message.timestamp)}</span>
+              </div>
+              <div
+                className={`max-w-full px-3 py-2 rounded-lg text-sm text-white whitespace-pre-wrap break-words ${
+                  isPrivate
+                    ? 'bg-purple-700'
+                    : isOwn ? 'bg-blue-600' : 'bg-gray-700'
+                }`}
+              >
+                {message.text}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <form onSubmit={handleSubmit} className="p-4 border-t border-gray-700 space-y-2">
+        <select
+          value={targetUserId}
+          onChange={(e) => setTargetUserId(e.target.value)}
+          className="w-full bg-gray-700 text-white text-sm px-3 py-2 rounded border border-gray-600 focus:outline-none"
+        >
+          <option value="">全員</option>
+          {recipients.map(recipient => (
+            <option key={recipient.userId} value={recipient.userId}>
+              {recipient.userName} (プライベート)
+            </option>
+          ))}
+        </select>
+        <div className="flex items-center space-x-2">
+          <input
+            type="text"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder="メッセージを入力"
+            maxLength={LIMITS.CHAT_MESSAGE_MAX_LENGTH}
+            className="flex-1 bg-gray-700 text-white text-sm px-3 py-2 rounded border border-gray-600 focus:outline-none focus:border-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={!draft.trim()}
+            className="p-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded transition-colors"
+            title="送信"
+          >
+            <Send size={16} />
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
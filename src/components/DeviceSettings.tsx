@@ -0,0 +1,118 @@
+import React from 'react';
+import { Camera, Mic, Volume2, X } from 'lucide-react';
+import { SelectedDevices } from '../utils/media';
+
+interface DeviceSettingsProps {
+  devices: MediaDeviceInfo[];
+  selectedDevices: SelectedDevices;
+  onSelectDevice: (kind: keyof SelectedDevices, deviceId: string) => void;
+  onClose: () => void;
+}
+
+// setSinkId はSafari/Firefoxの一部バージョンで未対応
+const supportsSpeakerSelection = typeof HTMLMediaElement !== 'undefined' &&
+  'setSinkId' in HTMLMediaElement.prototype;
+
+interface DeviceSelectProps {
+  id: string;
+  label: string;
+  icon: React.ReactNode;
+  devices: MediaDeviceInfo[];
+  value: string;
+  onChange: (deviceId: string) => void;
+  disabled?: boolean;
+}
+
+const DeviceSelect: React.FC<DeviceSelectProps> = ({ id, label, icon, devices, value, onChange, disabled }) => (
+  <div>
+    <label htmlFor={id} className="flex items-center text-gray-300 text-sm mb-1">
+      {icon}
+      <span className="ml-2">{label}</span>
+    </label>
+    <select
+      id={id}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={disabled}
+      className="w-full bg-gray-600 text-white px-3 py-2 rounded border border-gray-500 focus:outline-none disabled:opacity-50"
+    >
+      <option value="">システムの既定</option>
+      {devices
+        .filter(device => device.deviceId !== 'default')
+        .map((device, index) => (
+          <option key={device.deviceId} value={device.deviceId}>
+            {device.label || `${label} ${index + 1}`}
+          </option>
+        ))}
+    </select>
+  </div>
+);
+
+export const DeviceSettings: React.FC<DeviceSettingsProps> = ({
+  devices,
+  selectedDevices,
+  onSelectDevice,
+  onClose
+}) => {
+  const videoInputs = devices.filter(device => device.kind === 'videoinput');
+  const audioInputs = devices.filter(device => device.kind === 'audioinput');
+  const audioOutputs = devices.filter(device => device.kind === 'audiooutput');
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-70 flex items-center justify-center p-4"
+      style={{ zIndex: 9000 }}
+    >
+      <div className="w-full max-w-md bg-gray-700 rounded-lg p-4">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-white font-semibold">デバイス設定</h3>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-white transition-colors"
+            title="閉じる"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <DeviceSelect
+            id="videoInput"
+            label="カメラ"
+            icon={<Camera size={16} />}
+            devices={videoInputs}
+            value={selectedDevices.videoInput}
+            onChange={(deviceId) => onSelectDevice('videoInput', deviceId)}
+          />
+          <DeviceSelect
+            id="audioInput"
+            label="マイク"
+            icon={<Mic size={16} />}
+            devices={audioInputs}
+            value={selectedDevices.audioInput}
+            onChange={(deviceId) => onSelectDevice('audioInput', deviceId)}
+          />
+          <DeviceSelect
+            id="audioOutput"
+            label="スピーカー"
+            icon={<Volume2 size={16} />}
+            devices={audioOutputs}
+            value={selectedDevices.audioOutput}
+            onChange={(deviceId) => onSelectDevice('audioOutput', deviceId)}
+            disabled={!supportsSpeakerSelection}
+          />
+          {!supportsSpeakerSelection && (
+            <p className="text-gray-400 text-xs">このブラウザはスピーカーの切り替えに対応していません</p>
+          )}
+        </div>
+
+        <button
+          onClick={onClose}
+          className="mt-4 w-full py-2 text-gray-400 hover:text-white transition-colors text-sm"
+        >
+          閉じる
+        </button>
+      </div>
+    </div>
+  );
+};
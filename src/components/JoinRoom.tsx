@@ -1,14 +1,41 @@
 import React, { useState, useEffect } from 'react';
-import { Video, Users, Plus, ArrowRight } from 'lucide-react';
+import { Video, Users, Plus, ArrowRight, KeyRound, CheckCircle, AlertCircle, Activity } from 'lucide-react';
+import { PreJoinPreview } from './PreJoinPreview';
+import { NetworkCheck } from './NetworkCheck';
+import { JoinMediaOptions } from '../utils/media';
+import { createRoom, lookupRoom } from '../utils/rooms';
+import { logger } from '../utils/logger';
+import { LIMITS, RoomInfo, isValidRoomId } from '../../shared/protocol';
 
 interface JoinRoomProps {
-  onJoinRoom: (roomId: string, userName: string) => void;
+  onJoinRoom: (roomId: string, userName: string, media: JoinMediaOptions, passcode: string, create: boolean) => void;
 }
 
+interface PendingJoin {
+  roomId: string;
+  userName: string;
+  passcode: string;
+  // True when this client just created the room through the API
+  create: boolean;
+}
+
+type RoomCheck = 'idle' | 'invalid' | 'checking' | 'found' | 'not-found' | 'error';
+
+// Wait for a pause in typing before asking the server about the code
+const ROOM_CHECK_DELAY_MS = 300;
+
 export const JoinRoom: React.FC<JoinRoomProps> = ({ onJoinRoom }) => {
   const [roomId, setRoomId] = useState('');
   const [userName, setUserName] = useState('');
+  const [passcode, setPasscode] = useState('');
   const [isCreatingRoom, setIsCreatingRoom] = useState(false);
+  const [pendingJoin, setPendingJoin] = useState<PendingJoin | null>(null);
+  const [roomCheck, setRoomCheck] = useState<RoomCheck>('idle');
+  const [foundRoom, setFoundRoom] = useState<RoomInfo | null>(null);
+  const [isInviteLink, setIsInviteLink] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [createError, setCreateError] = useState<string | null>(null);
+  const [isCheckingNetwork, setIsCheckingNetwork] = useState(false);
 
   // Check for room ID in URL parameters
   useEffect(() => {
@@ -17,26 +44,80 @@ export const JoinRoom: React.FC<JoinRoomProps> = ({ onJoinRoom }) => {
     if (roomFromUrl) {
       setRoomId(roomFromUrl.toUpperCase());
       setIsCreatingRoom(false);
+      setIsInviteLink(true);
+    }
+    // Share links may embed the passcode so invitees don't have to type it
+    const passcodeFromUrl = urlParams.get('passcode');
+    if (passcodeFromUrl) {
+      setPasscode(passcodeFromUrl);
     }
   }, []);
 
-  const generateRoomId = () => {
-    return Math.random().toString(36).substring(2, 8).toUpperCase();
-  };
+  // Validate the room code as it is typed and check that the meeting exists
+  useEffect(() => {
+    if (isCreatingRoom) return;
+    const code = roomId.trim();
+    setFoundRoom(null);
+    if (!code) {
+      setRoomCheck('idle');
+      return;
+    }
+    if (!isValidRoomId(code)) {
+      setRoomCheck('invalid');
+      return;
+    }
+
+    setRoomCheck('checking');
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      lookupRoom(code, controller.signal)
+        .then(room => {
+          setFoundRoom(room);
+          setRoomCheck(room ? 'found' : 'not-found');
+        })
+        .catch(error => {
+          if (controller.signal.aborted) return;
+          logger.warn('Room lookup failed', { roomId: code, error });
+          setRoomCheck('error');
+        });
+    }, ROOM_CHECK_DELAY_MS);
 
-  const handleCreateRoom = () => {
-    if (userName.trim()) {
-      const newRoomId = generateRoomId();
-      onJoinRoom(newRoomId, userName.trim());
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [roomId, isCreatingRoom]);
+
+  const handleCreateRoom = async () => {
+    if (!userName.trim()) return;
+    setIsSubmitting(true);
+    setCreateError(null);
+    try {
+      const room = await createRoom({ format: 'words', passcode: passcode.trim() || undefined });
+      setPendingJoin({ roomId: room.roomId, userName: userName.trim(), passcode: passcode.trim(), create: true });
+    } catch (error) {
+      logger.error('Failed to create room', { error });
+      setCreateError('Could not create a room. Please try again.');
+    } finally {
+      setIsSubmitting(false);
     }
   };
 
   const handleJoinRoom = () => {
     if (userName.trim() && roomId.trim()) {
-      onJoinRoom(roomId.trim().toUpperCase(), userName.trim());
+      setPendingJoin({ roomId: roomId.trim().toUpperCase(), userName: userName.trim(), passcode: passcode.trim(), create: false });
     }
   };
 
+  const handleJoinFromPreview = (media: JoinMediaOptions) => {
+    if (pendingJoin) {
+      onJoinRoom(pendingJoin.roomId, pendingJoin.userName, media, pendingJoin.passcode, pendingJoin.create);
+    }
+  };
+
+  // A lookup that failed for network reasons doesn't block joining; the server has the final say
+  const canJoinRoom = roomCheck !== 'invalid' && roomCheck !== 'not-found' && roomCheck !== 'checking';
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (isCreatingRoom) {
@@ -60,109 +141,188 @@ export const JoinRoom: React.FC<JoinRoomProps> = ({ onJoinRoom }) => {
 
         {/* Main Card */}
         <div className="bg-white bg-opacity-10 backdrop-blur-md rounded-2xl shadow-2xl border border-white border-opacity-20 p-6">
-          <form onSubmit={handleSubmit} className="space-y-6">
-            {/* Name Input */}
-            <div>
-              <label htmlFor="userName" className="block text-sm font-medium text-white mb-2">
-                Your Name
-              </label>
-              <input
-                type="text"
-                id="userName"
-                value={userName}
-                onChange={(e) => setUserName(e.target.value)}
-                placeholder="Enter your name"
-                className="w-full px-4 py-3 bg-white bg-opacity-20 border border-white border-opacity-30 rounded-lg text-white placeholder-blue-200 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-transparent backdrop-blur-sm"
-                required
-              />
-            </div>
-
-            {/* Room Toggle */}
-            <div className="flex bg-white bg-opacity-10 rounded-lg p-1">
-              <button
-                type="button"
-                onClick={() => setIsCreatingRoom(true)}
-                className={`flex-1 py-2 px-4 rounded-md text-sm font-medium transition-all ${
-                  isCreatingRoom
-                    ? 'bg-white bg-opacity-20 text-white'
-                    : 'text-blue-200 hover:text-white'
-                }`}
-              >
-                <Plus size={16} className="inline mr-2" />
-                Create Room
-              </button>
+          {pendingJoin ? (
+            <PreJoinPreview
+              roomId={pendingJoin.roomId}
+              userName={pendingJoin.userName}
+              onJoin={handleJoinFromPreview}
+              onBack={() => setPendingJoin(null)}
+            />
+          ) : isCheckingNetwork ? (
+            <NetworkCheck onBack={() => setIsCheckingNetwork(false)} />
+          ) : (
+            <>
+              {/* Saved meetings have a title; show it when arriving from an invite link */}
+              {isInviteLink && !isCreatingRoom && foundRoom?.title && (
+                <div className="mb-6 text-center">
+                  <p className="text-blue-200 text-sm">You're invited to</p>
+                  <h2 className="text-xl font-semibold text-white break-words">{foundRoom.title}</h2>
+                </div>
+              )}
+
+              <form onSubmit={handleSubmit} className="space-y-6">
+                {/* Name Input */}
+                <div>
+                  <label htmlFor="userName" className="block text-sm font-medium text-white mb-2">
+                    Your Name
+                  </label>
+                  <input
+                    type="text"
+                    id="userName"
+                    value={userName}
+                    onChange={(e) => setUserName(e.target.value)}
+                    placeholder="Enter your name"
+                    className="w-full px-4 py-3 bg-white bg-opacity-20 border border-white border-opacity-30 rounded-lg text-white placeholder-blue-200 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-transparent backdrop-blur-sm"
+                    maxLength={LIMITS.USER_NAME_MAX_LENGTH}
+                    required
+                  />
+                </div>
+
+                {/* Room Toggle */}
+                <div className="flex bg-white bg-opacity-10 rounded-lg p-1">
+                  <button
+                    type="button"
+                    onClick={() => setIsCreatingRoom(true)}
+                    className={`flex-1 py-2 px-4 rounded-md text-sm font-medium transition-all ${
+                      isCreatingRoom
+                        ? 'bg-white bg-opacity-20 text-white'
+                        : 'text-blue-200 hover:text-white'
+                    }`}
+                  >
+                    <Plus size={16} className="inline mr-2" />
+                    Create Room
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setIsCreatingRoom(false)}
+                    className={`flex-1 py-2 px-4 rounded-md text-sm font-medium transition-all ${
+                      !isCreatingRoom
+                        ? 'bg-white bg-opacity-20 text-white'
+                        : 'text-blue-200 hover:text-white'
+                    }`}
+                  >
+                    <Users size={16} className="inline mr-2" />
+                    Join Room
+                  </button>
+                </div>
+
+                {/* Room ID Input (only for joining) */}
+                {!isCreatingRoom && (
+                  <div>
+                    <label htmlFor="roomId" className="block text-sm font-medium text-white mb-2">
+                      Room ID
+                    </label>
+                    <input
+                      type="text"
+                      id="roomId"
+                      value={roomId}
+                      onChange={(e) => setRoomId(e.target.value.toUpperCase())}
+                      placeholder="e.g. CALM-OTTER-RIVER-7KQ2X"
+                      className="w-full px-4 py-3 bg-white bg-opacity-20 border border-white border-opacity-30 rounded-lg text-white placeholder-blue-200 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-transparent backdrop-blur-sm"
+                      maxLength={LIMITS.ROOM_ID_MAX_LENGTH}
+                      pattern="[A-Za-z0-9_\-]+"
+                      title="Letters, numbers, - and _ only"
+                      required={!isCreatingRoom}
+                    />
+                    {roomCheck === 'invalid' && (
+                      <p className="mt-2 text-red-300 text-sm flex items-center">
+                        <AlertCircle size={14} className="mr-1" />
+                        Room codes only contain letters, numbers, - and _
+                      </p>
+                    )}
+                    {roomCheck === 'checking' && (
+                      <p className="mt-2 text-blue-200 text-sm">Checking room…</p>
+                    )}
+                    {roomCheck === 'not-found' && (
+                      <p className="mt-2 text-red-300 text-sm flex items-center">
+                        <AlertCircle size={14} className="mr-1" />
+                        No meeting with this code. Check it for typos.
+                      </p>
+                    )}
+                    {roomCheck === 'found' && (
+                      <p className="mt-2 text-green-300 text-sm flex items-center">
+                        <CheckCircle size={14} className="mr-1" />
+                        Ready to join room: <span className="font-semibold ml-1">{roomId}</span>
+                      </p>
+                    )}
+                    {roomCheck === 'error' && (
+                      <p className="mt-2 text-blue-200 text-sm">
+                        Couldn't check this room right now. You can still try to join.
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {/* Passcode Input */}
+                <div>
+                  <label htmlFor="passcode" className="block text-sm font-medium text-white mb-2">
+                    <KeyRound size={14} className="inline mr-1" />
+                    {isCreatingRoom ? 'Passcode (optional)' : 'Passcode'}
+                  </label>
+                  <input
+                    type="password"
+                    id="passcode"
+                    value={passcode}
+                    onChange={(e) => setPasscode(e.target.value)}
+                    placeholder={isCreatingRoom ? 'Leave empty for an open room' : 'Only if the room has one'}
+                    className="w-full px-4 py-3 bg-white bg-opacity-20 border border-white border-opacity-30 rounded-lg text-white placeholder-blue-200 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-transparent backdrop-blur-sm"
+                    maxLength={LIMITS.PASSCODE_MAX_LENGTH}
+                    autoComplete="off"
+                  />
+                </div>
+
+                {createError && isCreatingRoom && (
+                  <p className="text-red-300 text-sm flex items-center">
+                    <AlertCircle size={14} className="mr-1" />
+                    {createError}
+                  </p>
+                )}
+
+                {/* Submit Button */}
+                <button
+                  type="submit"
+                  disabled={isSubmitting || !userName.trim() || (!isCreatingRoom && (!roomId.trim() || !canJoinRoom))}
+                  className="w-full bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 disabled:from-gray-500 disabled:to-gray-600 disabled:cursor-not-allowed text-white font-semibold py-3 px-6 rounded-lg transition-all duration-200 transform hover:scale-105 disabled:scale-100 shadow-lg"
+                >
+                  <span className="flex items-center justify-center">
+                    {isCreatingRoom ? (isSubmitting ? 'Creating…' : 'Create Room') : 'Continue'}
+                    <ArrowRight size={20} className="ml-2" />
+                  </span>
+                </button>
+              </form>
+
               <button
                 type="button"
-                onClick={() => setIsCreatingRoom(false)}
-                className={`flex-1 py-2 px-4 rounded-md text-sm font-medium transition-all ${
-                  !isCreatingRoom
-                    ? 'bg-white bg-opacity-20 text-white'
-                    : 'text-blue-200 hover:text-white'
-                }`}
+                onClick={() => setIsCheckingNetwork(true)}
+                className="mt-4 w-full flex items-center justify-center text-sm text-blue-200 hover:text-white transition-colors"
               >
-                <Users size={16} className="inline mr-2" />
-                Join Room
+                <Activity size={16} className="mr-2" />
+                Test your camera, microphone and network
               </button>
-            </div>
-
-            {/* Room ID Input (only for joining) */}
-            {!isCreatingRoom && (
-              <div>
-                <label htmlFor="roomId" className="block text-sm font-medium text-white mb-2">
-                  Room ID
-                </label>
-                <input
-                  type="text"
-                  id="roomId"
-                  value={roomId}
-                  onChange={(e) => setRoomId(e.target.value.toUpperCase())}
-                  placeholder="Enter room ID"
-                  className="w-full px-4 py-3 bg-white bg-opacity-20 border border-white border-opacity-30 rounded-lg text-white placeholder-blue-200 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-transparent backdrop-blur-sm"
-                  maxLength={6}
-                  required={!isCreatingRoom}
-                />
-                {roomId && (
-                  <p className="mt-2 text-blue-200 text-sm">
-                    Ready to join room: <span className="font-semibold">{roomId}</span>
-                  </p>
-                )}
-              </div>
-            )}
-
-            {/* Submit Button */}
-            <button
-              type="submit"
-              disabled={!userName.trim() || (!isCreatingRoom && !roomId.trim())}
-              className="w-full bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 disabled:from-gray-500 disabled:to-gray-600 disabled:cursor-not-allowed text-white font-semibold py-3 px-6 rounded-lg transition-all duration-200 transform hover:scale-105 disabled:scale-100 shadow-lg"
-            >
-              <span className="flex items-center justify-center">
-                {isCreatingRoom ? 'Create & Join Room' : 'Join Room'}
-                <ArrowRight size={20} className="ml-2" />
-              </span>
-            </button>
-          </form>
-
-          {/* Features */}
-          <div className="mt-6 pt-6 border-t border-white border-opacity-20">
-            <div className="grid grid-cols-2 gap-4 text-sm text-blue-200">
-              <div className="flex items-center">
-                <div className="w-2 h-2 bg-green-400 rounded-full mr-2"></div>
-                HD Video & Audio
-              </div>
-              <div className="flex items-center">
-                <div className="w-2 h-2 bg-green-400 rounded-full mr-2"></div>
-                Screen Sharing
-              </div>
-              <div className="flex items-center">
-                <div className="w-2 h-2 bg-green-400 rounded-full mr-2"></div>
-                Global Access
-              </div>
-              <div className="flex items-center">
-                <div className="w-2 h-2 bg-green-400 rounded-full mr-2"></div>
-                Easy Room Sharing
+
+              {/* Features */}
+              <div className="mt-6 pt-6 border-t border-white border-opacity-20">
+                <div className="grid grid-cols-2 gap-4 text-sm text-blue-200">
+                  <div className="flex items-center">
+                    <div className="w-2 h-2 bg-green-400 rounded-full mr-2"></div>
+                    HD Video & Audio
+                  </div>
+                  <div className="flex items-center">
+                    <div className="w-2 h-2 bg-green-400 rounded-full mr-2"></div>
+                    Screen Sharing
+                  </div>
+                  <div className="flex items-center">
+                    <div className="w-2 h-2 bg-green-400 rounded-full mr-2"></div>
+                    Global Access
+                  </div>
+                  <div className="flex items-center">
+                    <div className="w-2 h-2 bg-green-400 rounded-full mr-2"></div>
+                    Easy Room Sharing
+                  </div>
+                </div>
               </div>
-            </div>
-          </div>
+            </>
+          )}
         </div>
 
         {/* Footer */}
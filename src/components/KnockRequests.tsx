@@ -0,0 +1,72 @@
+import React from 'react';
+import { UserCheck, UserX } from 'lucide-react';
+import { WaitingEntry } from '../../shared/protocol';
+
+interface KnockRequestsProps {
+  entries: WaitingEntry[];
+  onRespond: (waitingIds: string[], admit: boolean) => void;
+}
+
+// 待機室で参加を待っている人の一覧（ホストにのみ表示）
+export const KnockRequests: React.FC<KnockRequestsProps> = ({ entries, onRespond }) => {
+  if (entries.length === 0) return null;
+
+  const allIds = entries.map(entry => entry.id);
+
+  return (
+    <div className="bg-blue-900 text-blue-100 text-sm px-4 py-2">
+      <div className="flex justify-between items-center">
+        <span className="font-semibold">{entries.length}人が参加を待っています</span>
+        {entries.length > 1 && (
+          <div className="flex space-x-2">
+            <button
+              onClick={() => onRespond(allIds, true)}
+              className="px-2 py-1 bg-green-600 hover:bg-green-700 text-white text-xs rounded transition-colors"
+            >
+              全員を許可
+            </button>
+            <button
+              onClick={() => onRespond(allIds, false)}
+              className="px-2 py-1 bg-gray-600 hover:bg-gray-500 text-white text-xs rounded transition-colors"
+            >
+              全員を拒否
+            </button>
+          </div>
+        )}
+      </div>
+      <ul className="mt-2 space-y-1">
+        {entries.map(entry => (
+          <li key={entry.id} className="flex justify-between items-center">
+            <span className="truncate">
+              {entry.userName}
+              {entry.fromBannedAddress && (
+                <span
+                  className="ml-2 text-xs text-red-200 bg-red-900 px-1 rounded"
+                  title="このルームから禁止された参加者と同じネットワークから参加しようとしています"
+                >
+                  禁止した参加者と同じ接続元
+                </span>
+              )}
+            </span>
+            <div className="flex space-x-2">
+              <button
+                onClick={() => onRespond([entry.id], true)}
+                className="flex items-center px-2 py-1 bg-green-600 hover:bg-green-700 text-white text-xs rounded transition-colors"
+              >
+                <UserCheck size={12} className="mr-1" />
+                許可
+              </button>
+              <button
+                onClick={() => onRespond([entry.id], false)}
+                className="flex items-center px-2 py-1 bg-gray-600 hover:bg-gray-500 text-white text-xs rounded transition-colors"
+              >
+                <UserX size={12} className="mr-1" />
+                拒否
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
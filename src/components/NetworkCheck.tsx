@@ -0,0 +1,140 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { AlertTriangle, ArrowLeft, CheckCircle, Loader2, RefreshCw, XCircle } from 'lucide-react';
+import {
+  CheckResult,
+  CheckStatus,
+  checkIceServers,
+  checkMedia,
+  checkSignalingLatency,
+  measureLoopbackBitrate
+} from '../utils/networkCheck';
+
+interface NetworkCheckProps {
+  onBack: () => void;
+}
+
+type CheckId = 'camera' | 'microphone' | 'signaling' | 'stun' | 'turn' | 'bitrate';
+
+const CHECKS: { id: CheckId; label: string }[] = [
+  { id: 'camera', label: 'Camera' },
+  { id: 'microphone', label: 'Microphone' },
+  { id: 'signaling', label: 'Server connection' },
+  { id: 'stun', label: 'Direct connections (STUN)' },
+  { id: 'turn', label: 'Relay server (TURN)' },
+  { id: 'bitrate', label: 'Video upload' }
+];
+
+const STATUS_ICONS: Record<CheckStatus, React.ReactNode> = {
+  pass: <CheckCircle size={18} className="text-green-400" />,
+  warn: <AlertTriangle size={18} className="text-yellow-300" />,
+  fail: <XCircle size={18} className="text-red-400" />
+};
+
+const SUMMARIES: Record<CheckStatus, { text: string; className: string }> = {
+  pass: { text: 'Everything looks good for a call.', className: 'text-green-300' },
+  warn: { text: 'You can join, but some things may affect call quality.', className: 'text-yellow-200' },
+  fail: { text: 'Some checks failed. Calls may not work from this device or network.', className: 'text-red-300' }
+};
+
+// Runs every check without joining a room; the results stay on screen until run again
+export const NetworkCheck: React.FC<NetworkCheckProps> = ({ onBack }) => {
+  const [results, setResults] = useState<Partial<Record<CheckId, CheckResult>>>({});
+  const [isRunning, setIsRunning] = useState(false);
+  // Results from a run that was restarted or left are dropped
+  const runIdRef = useRef(0);
+  // Stopped on unmount so the camera light goes off as soon as the page is left
+  const streamRef = useRef<MediaStream | null>(null);
+
+  const runChecks = useCallback(async () => {
+    const runId = ++runIdRef.current;
+    const report = (partial: Partial<Record<CheckId, CheckResult>>) => {
+      if (runIdRef.current === runId) {
+        setResults(prev => ({ ...prev, ...partial }));
+      }
+    };
+
+    setResults({});
+    setIsRunning(true);
+    const media = await checkMedia();
+    streamRef.current = media.stream;
+    try {
+      report({ camera: media.camera, microphone: media.microphone });
+      report({ signaling: await checkSignalingLatency() });
+      report(await checkIceServers());
+      // The camera track from the capture check is reused as the loopback source
+      report({ bitrate: await measureLoopbackBitrate(media.stream.getVideoTracks()[0]) });
+    } finally {
+      media.stream.getTracks().forEach(track => track.stop());
+      if (runIdRef.current === runId) {
+        setIsRunning(false);
+      }
+    }
+  }, []);
+
+  const cancelRun = useCallback(() => {
+    runIdRef.current++;
+    streamRef.current?.getTracks().forEach(track => track.stop());
+  }, []);
+
+  useEffect(() => {
+    runChecks();
+    return cancelRun;
+  }, [runChecks, cancelRun]);
+
+  const statuses = Object.values(results).map(result => result.status);
+  const overall: CheckStatus = statuses.includes('fail') ? 'fail' : statuses.includes('warn') ? 'warn' : 'pass';
+
+  return (
+    <div className="space-y-5">
+      <div className="text-center">
+        <h2 className="text-white text-lg font-semibold">Call readiness check</h2>
+        <p className="text-blue-200 text-sm">Tests your camera, microphone and network without joining a room</p>
+      </div>
+
+      <ul className="space-y-3">
+        {CHECKS.map(({ id, label }) => {
+          const result = results[id];
+          return (
+            <li key={id} className="flex items-start space-x-3">
+              <div className="mt-0.5">
+                {result ? STATUS_ICONS[result.status] : (
+                  <Loader2 size={18} className={`text-blue-200 ${isRunning ? 'animate-spin' : ''}`} />
+                )}
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-white text-sm font-medium">{label}</p>
+                <p className="text-blue-200 text-xs">{result ? result.detail : isRunning ? 'Checking…' : 'Not run'}</p>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      {!isRunning && statuses.length > 0 && (
+        <p className={`text-sm ${SUMMARIES[overall].className}`}>{SUMMARIES[overall].text}</p>
+      )}
+
+      <div className="flex space-x-3">
+        <button
+          type="button"
+          onClick={onBack}
+          className="px-4 py-3 bg-white bg-opacity-10 hover:bg-opacity-20 text-white rounded-lg transition-colors"
+          title="Back"
+        >
+          <ArrowLeft size={20} />
+        </button>
+        <button
+          type="button"
+          onClick={runChecks}
+          disabled={isRunning}
+          className="flex-1 bg-white bg-opacity-20 hover:bg-opacity-30 disabled:opacity-50 disabled:cursor-not-allowed text-white font-semibold py-3 px-6 rounded-lg transition-colors"
+        >
+          <span className="flex items-center justify-center">
+            <RefreshCw size={18} className="mr-2" />
+            {isRunning ? 'Checking…' : 'Run again'}
+          </span>
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,178 @@
+import React from 'react';
+import { X, Mic, MicOff, Video, VideoOff, Crown, UserMinus, Ban, PhoneOff } from 'lucide-react';
+import { MediaKind, ParticipantRole } from '../../shared/protocol';
+
+export interface ParticipantEntry {
+  userId: string;
+  userName: string;
+  role?: ParticipantRole;
+  isVideoOn?: boolean;
+  isAudioOn?: boolean;
+  isReconnecting?: boolean;
+}
+
+export interface ModerationActions {
+  onRequestMediaOff: (targetUserId: string, kind: MediaKind) => void;
+  onSetRole: (targetUserId: string, role: ParticipantRole) => void;
+  onTransferHost: (targetUserId: string) => void;
+  onRemove: (targetUserId: string, ban: boolean) => void;
+}
+
+interface ParticipantsPanelProps {
+  self: ParticipantEntry;
+  participants: ParticipantEntry[];
+  isHost: boolean;
+  moderation: ModerationActions;
+  onEndMeeting: () => void;
+  onClose: () => void;
+}
+
+const actionButtonClass = 'p-1 rounded text-gray-400 hover:text-white hover:bg-gray-600 transition-colors';
+
+export const ParticipantsPanel: React.FC<ParticipantsPanelProps> = ({
+  self,
+  participants,
+  isHost,
+  moderation,
+  onEndMeeting,
+  onClose
+}) => {
+  const hostCount = [self, ...participants].filter(p => p.role === 'host').length;
+
+  const renderEntry = (entry: ParticipantEntry, isSelf: boolean) => (
+    <li key={entry.userId} className="px-4 py-2 hover:bg-gray-700">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center min-w-0 space-x-2">
+          <div className="w-8 h-8 flex-shrink-0 bg-gray-600 rounded-full flex items-center justify-center">
+            <span className="text-white text-sm font-semibold">{entry.userName.charAt(0).toUpperCase()}</span>
+          </div>
+          <div className="min-w-0">
+            <p className="text-white text-sm truncate">
+              {entry.userName}{isSelf && ' (あなた)'}
+            </p>
+            <p className="text-xs text-gray-400 flex items-center">
+              {entry.role === 'host' && (
+                <span className="flex items-center text-yellow-300 mr-2">
+                  <Crown size={10} className="mr-1" />
+                  ホスト
+                </span>
+              )}
+              {entry.isReconnecting && <span className="text-yellow-200">再接続中…</span>}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-1 text-gray-400">
+          {entry.isAudioOn === false ? <MicOff size={14} className="text-red-400" /> : <Mic size={14} />}
+          {entry.isVideoOn === false ? <VideoOff size={14} className="text-red-400" /> : <Video size={14} />}
+        </div>
+      </div>
+
+      {isHost && (
+        <div className="mt-1 flex flex-wrap justify-end gap-1">
+          {isSelf ? (
+            // 他にホストがいる場合のみ自分でホストを降りられる
+            entry.role === 'host' && hostCount > 1 && (
+              <button
+                onClick={() => moderation.onSetRole(entry.userId, 'participant')}
+                className={`${actionButtonClass} text-xs`}
+              >
+                ホストを降りる
+              </button>
+            )
+          ) : (
+            <>
+              <button
+                onClick={() => moderation.onRequestMediaOff(entry.userId, 'audio')}
+                disabled={entry.isAudioOn === false}
+                className={`${actionButtonClass} disabled:opacity-40 disabled:cursor-not-allowed`}
+                title="ミュートする"
+              >
+                <MicOff size={14} />
+              </button>
+              <button
+                onClick={() => moderation.onRequestMediaOff(entry.userId, 'video')}
+                disabled={entry.isVideoOn === false}
+                className={`${actionButtonClass} disabled:opacity-40 disabled:cursor-not-allowed`}
+                title="カメラをオフにする"
+              >
+                <VideoOff size={14} />
+              </button>
+              {entry.role === 'host' ? (
+                <button
+                  onClick={() => moderation.onSetRole(entry.userId, 'participant')}
+                  className={`${actionButtonClass} text-xs`}
+                  title="ホスト権限を外す"
+                >
+                  共同ホスト解除
+                </button>
+              ) : (
+                <>
+                  <button
+                    onClick={() => moderation.onSetRole(entry.userId, 'host')}
+                    className={`${actionButtonClass} text-xs`}
+                    title="共同ホストにする"
+                  >
+                    共同ホスト
+                  </button>
+                  <button
+                    onClick={() => moderation.onTransferHost(entry.userId)}
+                    className={`${actionButtonClass} text-xs`}
+                    title="ホストを譲る"
+                  >
+                    ホストを譲る
+                  </button>
+                </>
+              )}
+              <button
+                onClick={() => moderation.onRemove(entry.userId, false)}
+                className={`${actionButtonClass} hover:text-red-300`}
+                title="退出させる"
+              >
+                <UserMinus size={14} />
+              </button>
+              <button
+                onClick={() => moderation.onRemove(entry.userId, true)}
+                className={`${actionButtonClass} hover:text-red-300`}
+                title="退出させて再参加を禁止"
+              >
+                <Ban size={14} />
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </li>
+  );
+
+  return (
+    <div className="w-80 bg-gray-800 border-l border-gray-700 flex flex-col">
+      <div className="p-4 border-b border-gray-700 flex justify-between items-center">
+        <h3 className="text-white font-semibold">参加者 ({participants.length + 1})</h3>
+        <button
+          onClick={onClose}
+          className="p-1 text-gray-400 hover:text-white transition-colors"
+          title="閉じる"
+        >
+          <X size={18} />
+        </button>
+      </div>
+
+      <ul className="flex-1 overflow-y-auto py-2">
+        {renderEntry(self, true)}
+        {participants.map(participant => renderEntry(participant, false))}
+      </ul>
+
+      {isHost && (
+        <div className="p-4 border-t border-gray-700">
+          <button
+            onClick={onEndMeeting}
+            className="w-full py-2 bg-red-600 hover:bg-red-700 text-white text-sm rounded transition-colors flex items-center justify-center"
+          >
+            <PhoneOff size={16} className="mr-2" />
+            全員の会議を終了
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,250 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Mic, MicOff, Video, VideoOff, Volume2, ArrowLeft, ArrowRight } from 'lucide-react';
+import { useAudioLevel } from '../hooks/useAudioLevel';
+import { logger } from '../utils/logger';
+import {
+  DEFAULT_DEVICES,
+  JoinMediaOptions,
+  SelectedDevices,
+  acquireLocalMedia
+} from '../utils/media';
+import { isForceRelayEnabled, setForceRelayEnabled } from '../utils/iceConfig';
+
+interface PreJoinPreviewProps {
+  roomId: string;
+  userName: string;
+  onJoin: (media: JoinMediaOptions) => void;
+  onBack: () => void;
+}
+
+const METER_SEGMENTS = 12;
+
+const supportsSpeakerSelection = typeof HTMLMediaElement !== 'undefined' &&
+  'setSinkId' in HTMLMediaElement.prototype;
+
+export const PreJoinPreview: React.FC<PreJoinPreviewProps> = ({ roomId, userName, onJoin, onBack }) => {
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [selectedDevices, setSelectedDevices] = useState<SelectedDevices>(DEFAULT_DEVICES);
+  const [isVideoOn, setIsVideoOn] = useState(true);
+  const [isAudioOn, setIsAudioOn] = useState(true);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [forceRelay, setForceRelay] = useState(isForceRelayEnabled);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const audioLevel = useAudioLevel(stream);
+  const { videoInput, audioInput } = selectedDevices;
+
+  // Re-acquire the preview whenever a different camera or microphone is picked
+  useEffect(() => {
+    let cancelled = false;
+    let acquired: MediaStream | null = null;
+
+    const startPreview = async () => {
+      try {
+        acquired = await acquireLocalMedia({ ...DEFAULT_DEVICES, videoInput, audioInput });
+        if (cancelled) {
+          acquired.getTracks().forEach(track => track.stop());
+          return;
+        }
+        setStream(acquired);
+
+        // Missing devices are not fatal: the call continues audio-only or as a viewer
+        const hasVideo = acquired.getVideoTracks().length > 0;
+        const hasAudio = acquired.getAudioTracks().length > 0;
+        if (!hasVideo && !hasAudio) {
+          setNotice('No camera or microphone available. You will join as a viewer.');
+        } else if (!hasVideo) {
+          setNotice('No camera available. You will join with audio only.');
+        } else if (!hasAudio) {
+          setNotice('No microphone available. You will join with video only.');
+        } else {
+          setNotice(null);
+        }
+
+        // Device labels are only populated once permission has been granted
+        const deviceList = await navigator.mediaDevices.enumerateDevices();
+        if (!cancelled) {
+          setDevices(deviceList.filter(device => device.deviceId && device.deviceId !== 'default'));
+        }
+      } catch (err) {
+        logger.error('Failed to start camera preview', { error: err });
+        if (!cancelled) {
+          setStream(null);
+          setNotice('Could not check your camera or microphone. You can still join.');
+        }
+      }
+    };
+
+    startPreview();
+
+    return () => {
+      cancelled = true;
+      acquired?.getTracks().forEach(track => track.stop());
+    };
+  }, [videoInput, audioInput]);
+
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.srcObject = stream;
+    }
+  }, [stream, isVideoOn]);
+
+  const selectDevice = (kind: keyof SelectedDevices, deviceId: string) => {
+    setSelectedDevices(prev => ({ ...prev, [kind]: deviceId }));
+  };
+
+  const handleJoin = () => {
+    stream?.getTracks().forEach(track => track.stop());
+    onJoin({ isVideoOn, isAudioOn, devices: selectedDevices });
+  };
+
+  const renderSelect = (kind: keyof SelectedDevices, deviceKind: MediaDeviceKind, label: string, disabled = false) => (
+    <div>
+      <label htmlFor={kind} className="block text-xs font-medium text-blue-200 mb-1">
+        {label}
+      </label>
+      <select
+        id={kind}
+        value={selectedDevices[kind]}
+        onChange={(e) => selectDevice(kind, e.target.value)}
+        disabled={disabled}
+        className="w-full px-3 py-2 bg-white bg-opacity-20 border border-white border-opacity-30 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-400 disabled:opacity-50"
+      >
+        <option value="" className="text-gray-900">System default</option>
+        {devices
+          .filter(device => device.kind === deviceKind)
+          .map((device, index) => (
+            <option key={device.deviceId} value={device.deviceId} className="text-gray-900">
+              {device.label || `${label} ${index + 1}`}
+            </option>
+          ))}
+      </select>
+    </div>
+  );
+
+  const activeSegments = isAudioOn ? Math.round(audioLevel * METER_SEGMENTS) : 0;
+
+  return (
+    <div className="space-y-5">
+      <div className="text-center">
+        <h2 className="text-white text-lg font-semibold">Ready to join?</h2>
+        <p className="text-blue-200 text-sm">
+          Room <span className="font-semibold">{roomId}</span> as <span className="font-semibold">{userName}</span>
+        </p>
+      </div>
+
+      {/* Camera Preview */}
+      <div className="relative aspect-video bg-black bg-opacity-40 rounded-lg overflow-hidden">
+        {stream && stream.getVideoTracks().length > 0 && isVideoOn ? (
+          <video
+            ref={videoRef}
+            autoPlay
+            muted
+            playsInline
+            className="w-full h-full object-cover transform -scale-x-100"
+          />
+        ) : (
+          <div className="w-full h-full flex items-center justify-center">
+            <div className="w-20 h-20 bg-white bg-opacity-20 rounded-full flex items-center justify-center">
+              <span className="text-white text-2xl font-semibold">
+                {userName.charAt(0).toUpperCase()}
+              </span>
+            </div>
+          </div>
+        )}
+
+        <div className="absolute bottom-3 inset-x-0 flex justify-center space-x-3">
+          <button
+            type="button"
+            onClick={() => setIsAudioOn(!isAudioOn)}
+            className={`w-10 h-10 rounded-full flex items-center justify-center text-white transition-colors ${
+              isAudioOn ? 'bg-white bg-opacity-20 hover:bg-opacity-30' : 'bg-red-500 hover:bg-red-600'
+            }`}
+            title={isAudioOn ? 'Join muted' : 'Join with microphone on'}
+          >
+            {isAudioOn ? <Mic size={18} /> : <MicOff size={18} />}
+          </button>
+          <button
+            type="button"
+            onClick={() => setIsVideoOn(!isVideoOn)}
+            className={`w-10 h-10 rounded-full flex items-center justify-center text-white transition-colors ${
+              isVideoOn ? 'bg-white bg-opacity-20 hover:bg-opacity-30' : 'bg-red-500 hover:bg-red-600'
+            }`}
+            title={isVideoOn ? 'Join with camera off' : 'Join with camera on'}
+          >
+            {isVideoOn ? <Video size={18} /> : <VideoOff size={18} />}
+          </button>
+        </div>
+      </div>
+
+      {/* Mic Level Meter */}
+      <div className="flex items-center space-x-2">
+        <Mic size={16} className="text-blue-200" />
+        <div className="flex-1 flex space-x-1">
+          {Array.from({ length: METER_SEGMENTS }, (_, index) => (
+            <div
+              key={index}
+              className={`flex-1 h-2 rounded-full transition-colors ${
+                index < activeSegments
+                  ? index < METER_SEGMENTS * 0.75 ? 'bg-green-400' : 'bg-yellow-400'
+                  : 'bg-white bg-opacity-20'
+              }`}
+            />
+          ))}
+        </div>
+      </div>
+
+      {notice && (
+        <p className="text-yellow-200 text-sm">{notice}</p>
+      )}
+
+      {/* Device Pickers */}
+      <div className="space-y-3">
+        {renderSelect('videoInput', 'videoinput', 'Camera')}
+        {renderSelect('audioInput', 'audioinput', 'Microphone')}
+        {renderSelect('audioOutput', 'audiooutput', 'Speaker', !supportsSpeakerSelection)}
+        {!supportsSpeakerSelection && (
+          <p className="flex items-center text-blue-200 text-xs">
+            <Volume2 size={12} className="mr-1" />
+            Speaker selection is not supported in this browser
+          </p>
+        )}
+      </div>
+
+      {/* Saved per browser and read by the call when it creates its peer connections */}
+      <label className="flex items-start space-x-2 text-blue-200 text-xs cursor-pointer">
+        <input
+          type="checkbox"
+          checked={forceRelay}
+          onChange={(e) => {
+            setForceRelay(e.target.checked);
+            setForceRelayEnabled(e.target.checked);
+          }}
+          className="mt-0.5"
+        />
+        <span>Relay media through the server. Try this if the call connects but you can't see or hear anyone.</span>
+      </label>
+
+      <div className="flex space-x-3">
+        <button
+          type="button"
+          onClick={onBack}
+          className="px-4 py-3 bg-white bg-opacity-10 hover:bg-opacity-20 text-white rounded-lg transition-colors"
+          title="Back"
+        >
+          <ArrowLeft size={20} />
+        </button>
+        <button
+          type="button"
+          onClick={handleJoin}
+          className="flex-1 bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700 text-white font-semibold py-3 px-6 rounded-lg transition-all duration-200 transform hover:scale-105 shadow-lg"
+        >
+          <span className="flex items-center justify-center">
+            Join Now
+            <ArrowRight size={20} className="ml-2" />
+          </span>
+        </button>
+      </div>
+    </div>
+  );
+};
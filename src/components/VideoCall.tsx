@@ -1,4 +1,4 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
+import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import { 
   Mic, 
   MicOff, 
@@ -14,22 +14,72 @@ import {
   Check,
   Maximize2,
   Minimize2,
-  X
+  X,
+  Lock,
+  Unlock,
+  KeyRound,
+  Crown,
+  UserMinus,
+  DoorOpen,
+  DoorClosed,
+  Download,
+  LayoutGrid,
+  Presentation
 } from 'lucide-react';
-import { io, Socket } from 'socket.io-client';
+import { io } from 'socket.io-client';
+import { ChatPanel } from './ChatPanel';
+import { ParticipantsPanel, ModerationActions } from './ParticipantsPanel';
+import { WaitingRoomScreen } from './WaitingRoomScreen';
+import { KnockRequests } from './KnockRequests';
+import { DeviceSettings } from './DeviceSettings';
+import { LOCAL_SPEAKER_ID, useActiveSpeaker } from '../hooks/useActiveSpeaker';
+import {
+  ULTRA_HIGH_SCREEN_CONSTRAINTS,
+  SelectedDevices,
+  JoinMediaOptions,
+  acquireLocalMedia,
+  buildVideoConstraints,
+  buildAudioConstraints
+} from '../utils/media';
+import { loadSession, clearSession } from '../utils/session';
+import { LossCounters, sampleCallQuality } from '../utils/callQuality';
+import { PeerStats, PeerStatsCounters, formatBitrate, getQualityLevel, samplePeerStats } from '../utils/peerStats';
+import { FALLBACK_ICE_CONFIG, isForceRelayEnabled, loadIceConfig, needsRefresh, toRTCConfiguration } from '../utils/iceConfig';
+import { SignalingSocket, onServerEvent, parseAck, toIceCandidate, toSessionDescription } from '../utils/signaling';
+import { logger } from '../utils/logger';
+import { candidateTypeOf, createDiagnosticsRecorder, downloadDiagnostics } from '../utils/diagnostics';
+import {
+  CallQualitySample,
+  ChatMessage,
+  LIMITS,
+  IceConfig,
+  JoinError,
+  JoinErrorCode,
+  MediaKind,
+  ParticipantRole,
+  PublicParticipant,
+  RoomInfo,
+  WaitingEntry
+} from '../../shared/protocol';
 
 interface Participant {
   userId: string;
   userName: string;
+  role?: ParticipantRole;
   stream?: MediaStream;
   isVideoOn?: boolean;
   isAudioOn?: boolean;
   isScreenSharing?: boolean;
+  isReconnecting?: boolean;
 }
 
 interface VideoCallProps {
   roomId: string;
   userName: string;
+  passcode: string;
+  // ルームを作成した本人のときだけ true。サーバーにルームがなければ作り直す
+  create: boolean;
+  initialMedia: JoinMediaOptions;
   onLeaveCall: () => void;
 }
 
@@ -38,88 +88,201 @@ interface VideoSize {
   height: number;
 }
 
+// Perfect negotiation の状態（ピアごと）
+interface NegotiationState {
+  polite: boolean;
+  makingOffer: boolean;
+  ignoreOffer: boolean;
+  isSettingRemoteAnswerPending: boolean;
+  // 接続を作り直した直後のオファーであることを相手に伝える
+  isRebuild: boolean;
+}
+
+// ピアごとの接続復旧の状態
+interface PeerRecoveryState {
+  attempts: number;
+  timer: NodeJS.Timeout | null;
+}
+
 interface ScreenShareWindow {
   stream: MediaStream;
   userName: string;
   userId: string;
 }
 
-// より多くのSTUN/TURNサーバーを追加
-const ICE_SERVERS = [
-  { urls: 'stun:stun.l.google.com:19302' },
-  { urls: 'stun:stun1.l.google.com:19302' },
-  { urls: 'stun:stun2.l.google.com:19302' },
-  { urls: 'stun:stun3.l.google.com:19302' },
-  { urls: 'stun:stun4.l.google.com:19302' },
-  {
-    urls: 'turn:openrelay.metered.ca:80',
-    username: 'openrelayproject',
-    credential: 'openrelayproject'
+// ICE再起動のバックオフ設定
+const ICE_RESTART_BASE_DELAY = 1000;
+const ICE_RESTART_MAX_DELAY = 16000;
+const DISCONNECTED_GRACE_PERIOD = 2000;
+const MAX_ICE_RESTARTS = 3;
+
+// TURN 認証情報の期限を確認する間隔
+const ICE_CONFIG_CHECK_INTERVAL_MS = 60000;
+
+// 相手ごとの接続品質（電波アイコン）の更新間隔
+const PEER_STATS_INTERVAL_MS = 2000;
+
+// スピーカービューの下段（フィルムストリップ）に並べるタイルの高さ。大きなタイルはその残りを使う
+const FILMSTRIP_TILE_HEIGHT = 120;
+const STAGE_STYLE: React.CSSProperties = {
+  width: '100%',
+  height: `calc(100% - ${FILMSTRIP_TILE_HEIGHT + 4}px)`,
+  order: -1
+};
+const FILMSTRIP_STYLE: React.CSSProperties = {
+  width: `${FILMSTRIP_TILE_HEIGHT * 4 / 3}px`,
+  height: `${FILMSTRIP_TILE_HEIGHT}px`
+};
+
+// 通話品質レポートの送信間隔（サーバーはこれより短い間隔のレポートを捨てる）
+const CALL_QUALITY_REPORT_INTERVAL_MS = 30000;
+
+// join-room が拒否されたときに表示する内容
+const JOIN_ERROR_DETAILS: Record<JoinErrorCode, { title: string; description: string; canRetry: boolean }> = {
+  'room-full': {
+    title: 'ルームが満員です',
+    description: 'このルームは参加人数の上限に達しています。しばらくしてからもう一度お試しください。',
+    canRetry: true
+  },
+  'room-locked': {
+    title: 'ルームはロックされています',
+    description: 'ホストがこのルームへの新しい参加を締め切っています。',
+    canRetry: true
+  },
+  'passcode-required': {
+    title: 'パスコードが必要です',
+    description: 'このルームに参加するにはパスコードを入力してください。',
+    canRetry: true
+  },
+  'invalid-passcode': {
+    title: 'パスコードが正しくありません',
+    description: 'パスコードを確認して、もう一度入力してください。',
+    canRetry: true
+  },
+  'invalid-name': {
+    title: '名前が正しくありません',
+    description: '名前は1〜50文字で入力してください。ホームに戻って名前を変更してください。',
+    canRetry: false
   },
-  {
-    urls: 'turn:openrelay.metered.ca:443',
-    username: 'openrelayproject',
-    credential: 'openrelayproject'
+  'banned': {
+    title: 'このルームには参加できません',
+    description: 'ホストによってこのルームから削除されたため、再参加できません。',
+    canRetry: false
   },
-  {
-    urls: 'turn:openrelay.metered.ca:443?transport=tcp',
-    username: 'openrelayproject',
-    credential: 'openrelayproject'
+  'room-not-found': {
+    title: 'ルームが見つかりません',
+    description: 'このコードの会議は存在しないか、すでに終了しています。コードを確認してください。',
+    canRetry: false
   },
-  {
-    urls: 'turn:relay1.expressturn.com:3478',
-    username: 'efJBIBF0YQAB8KAAAB',
-    credential: 'sTunTurn'
+  'rate-limited': {
+    title: 'リクエストが多すぎます',
+    description: 'このネットワークから作成できるルーム数か、参加リクエストの上限に達しました。しばらくしてからもう一度お試しください。',
+    canRetry: true
+  },
+  'invalid-request': {
+    title: '参加できませんでした',
+    description: 'サーバーが参加リクエストを受け付けませんでした。',
+    canRetry: true
   }
-];
-
-// 高品質ビデオ設定（カメラ用）
-const HIGH_QUALITY_VIDEO_CONSTRAINTS = {
-  width: { ideal: 1280, max: 1920 },
-  height: { ideal: 720, max: 1080 },
-  frameRate: { ideal: 30, max: 30 }
 };
 
-// 超高品質画面共有設定
-const ULTRA_HIGH_SCREEN_CONSTRAINTS = {
-  width: { ideal: 1920, max: 3840 },
-  height: { ideal: 1080, max: 2160 },
-  frameRate: { ideal: 30, max: 60 }
+// 映像を送るトランシーバー。カメラなしで参加した場合は受信専用で sender.track が null なので、受信トラックの種別で探す
+const findVideoTransceiver = (pc: RTCPeerConnection) => {
+  const transceivers = pc.getTransceivers().filter(t => t.direction !== 'stopped' && t.receiver.track.kind === 'video');
+  return transceivers.find(t => t.sender.track?.kind === 'video') ?? transceivers[0];
 };
 
-const AUDIO_CONSTRAINTS = {
-  echoCancellation: true,
-  noiseSuppression: true,
-  autoGainControl: true,
-  sampleRate: 48000,
-  channelCount: 2
+// 画面共有の開始・終了時に映像の送信トラックを差し替え、受信専用だった場合は送信も有効にする
+const replaceVideoTrack = async (pc: RTCPeerConnection, track: MediaStreamTrack | null, stream: MediaStream | null) => {
+  const transceiver = findVideoTransceiver(pc);
+  if (!transceiver) return;
+  await transceiver.sender.replaceTrack(track);
+  if (track && transceiver.direction !== 'sendrecv') {
+    if (stream) {
+      transceiver.sender.setStreams?.(stream);
+    }
+    // 再交渉は onnegotiationneeded で行われる
+    transceiver.direction = 'sendrecv';
+  }
 };
 
-export const VideoCall: React.FC<VideoCallProps> = ({ roomId, userName, onLeaveCall }) => {
-  const [socket, setSocket] = useState<Socket | null>(null);
+export const VideoCall: React.FC<VideoCallProps> = ({ roomId, userName, passcode, create, initialMedia, onLeaveCall }) => {
+  const [socket, setSocket] = useState<SignalingSocket | null>(null);
   const [localStream, setLocalStream] = useState<MediaStream | null>(null);
   const [localCameraStream, setLocalCameraStream] = useState<MediaStream | null>(null);
   const [participants, setParticipants] = useState<Map<string, Participant>>(new Map());
-  const [isVideoOn, setIsVideoOn] = useState(true);
-  const [isAudioOn, setIsAudioOn] = useState(true);
+  const [isVideoOn, setIsVideoOn] = useState(initialMedia.isVideoOn);
+  const [isAudioOn, setIsAudioOn] = useState(initialMedia.isAudioOn);
   const [isScreenSharing, setIsScreenSharing] = useState(false);
-  const [connectionStatus, setConnectionStatus] = useState<'connecting' | 'connected' | 'failed'>('connecting');
+  // 'reconnecting' は通話画面を出したまま、切れたソケットの再接続を待っている状態
+  const [connectionStatus, setConnectionStatus] = useState<'connecting' | 'connected' | 'reconnecting' | 'failed'>('connecting');
   const [showRoomInfo, setShowRoomInfo] = useState(false);
   const [copied, setCopied] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [mediaNotice, setMediaNotice] = useState<string | null>(null);
+  const [joinError, setJoinError] = useState<JoinError | null>(null);
+  const [roomInfo, setRoomInfo] = useState<RoomInfo | null>(null);
+  const [role, setRole] = useState<ParticipantRole>('participant');
+  // 参加に使ったパスコード。拒否されたときは入力し直して再試行する
+  const [joinPasscode, setJoinPasscode] = useState(passcode);
+  const [passcodeDraft, setPasscodeDraft] = useState('');
+  const [includePasscodeInUrl, setIncludePasscodeInUrl] = useState(false);
+  const [showParticipants, setShowParticipants] = useState(false);
+  // 待機室でホストの許可を待っている間は true
+  const [isWaitingForHost, setIsWaitingForHost] = useState(false);
+  const [waitingList, setWaitingList] = useState<WaitingEntry[]>([]);
+  // ホストによって退出させられた・会議が終了したときに表示する内容
+  const [exitNotice, setExitNotice] = useState<{ title: string; description: string } | null>(null);
   const [reconnectAttempts, setReconnectAttempts] = useState(0);
-  const [debugInfo, setDebugInfo] = useState<string[]>([]);
   const [videoSizes, setVideoSizes] = useState<Map<string, VideoSize>>(new Map());
   const [screenShareWindow, setScreenShareWindow] = useState<ScreenShareWindow | null>(null);
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [showChat, setShowChat] = useState(false);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [showSettings, setShowSettings] = useState(false);
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [selectedDevices, setSelectedDevices] = useState<SelectedDevices>(initialMedia.devices);
+  const [peerStats, setPeerStats] = useState<Map<string, PeerStats>>(new Map());
+  const [layout, setLayout] = useState<'gallery' | 'speaker'>('gallery');
+  // スピーカービューで大きく映す相手。自分が話している間も直前に話していた相手を映し続ける
+  const [stageUserId, setStageUserId] = useState<string | null>(null);
   
   const localVideoRef = useRef<HTMLVideoElement>(null);
   const localCameraRef = useRef<HTMLVideoElement>(null);
   const peerConnections = useRef<Map<string, RTCPeerConnection>>(new Map());
-  const userId = useRef(Math.random().toString(36).substr(2, 9));
-  const socketRef = useRef<Socket | null>(null);
+  const negotiationStates = useRef<Map<string, NegotiationState>>(new Map());
+  // remoteDescription より先に届いたICE候補を保持しておく
+  const pendingCandidates = useRef<Map<string, RTCIceCandidateInit[]>>(new Map());
+  const recoveryStates = useRef<Map<string, PeerRecoveryState>>(new Map());
+  // 終了時にカメラ・マイクを確実に止められるよう、state とは別に保持する
+  const localStreamRef = useRef<MediaStream | null>(null);
+  const localCameraStreamRef = useRef<MediaStream | null>(null);
+  // サーバーから取得した ICE 設定。新しいピア接続は常に最新の設定で作る
+  const iceConfigRef = useRef<IceConfig>(FALLBACK_ICE_CONFIG);
+  // 制限の厳しいネットワーク向けに、すべてのメディアを TURN 経由にする
+  const [forceRelay] = useState(isForceRelayEnabled);
+  // 問い合わせ用の診断情報（シグナリングの時刻、ICE 候補、統計の推移）を通話中ずっと記録する
+  const [diagnostics] = useState(createDiagnosticsRecorder);
+  // 再読み込み後も同じ参加者として復帰できるよう sessionStorage から復元する
+  const [session] = useState(() => loadSession(roomId));
+  // 自分の参加者IDは join-room の応答でサーバーから受け取る
+  const userId = useRef('');
+  const joinPasscodeRef = useRef(passcode);
+  const [selfUserId, setSelfUserId] = useState('');
+  const socketRef = useRef<SignalingSocket | null>(null);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const heartbeatIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const connectionMonitorRef = useRef<NodeJS.Timeout | null>(null);
+  // ビットレート計算用の前回の累積値
+  const peerStatsCounters = useRef<Map<string, PeerStatsCounters>>(new Map());
+  const showChatRef = useRef(false);
+
+  useEffect(() => {
+    showChatRef.current = showChat;
+    if (showChat) {
+      setUnreadCount(0);
+    }
+  }, [showChat]);
 
   // ブラウザ拡張機能エラーを完全に抑制
   useEffect(() => {
@@ -182,13 +345,8 @@ export const VideoCall: React.FC<VideoCallProps> = ({ roomId, userName, onLeaveC
     };
   }, []);
 
-  // デバッグ情報を追加する関数
-  const addDebugInfo = useCallback((message: string) => {
-    const timestamp = new Date().toLocaleTimeString();
-    const debugMessage = `[${timestamp}] ${message}`;
-    console.log('🔍 DEBUG:', debugMessage);
-    setDebugInfo(prev => [...prev.slice(-20), debugMessage]);
-  }, []);
+  // この通話のログには常にルームIDと自分の参加者IDを付ける
+  const log = useMemo(() => logger.child(() => ({ roomId, userId: userId.current || undefined })), [roomId]);
 
   // ビデオサイズを更新する関数
   const updateVideoSize = useCallback((participantId: string, width: number, height: number) => {
@@ -209,62 +367,95 @@ export const VideoCall: React.FC<VideoCallProps> = ({ roomId, userName, onLeaveC
     setScreenShareWindow(null);
   }, []);
 
-  // 接続状態を定期的に監視
+  // 接続状態と通信品質を定期的に収集し、各タイルの電波アイコンに反映する
   const startConnectionMonitor = useCallback(() => {
     if (connectionMonitorRef.current) {
       clearInterval(connectionMonitorRef.current);
     }
     
-    connectionMonitorRef.current = setInterval(() => {
-      peerConnections.current.forEach((pc, userId) => {
-        const connectionState = pc.connectionState;
-        const iceConnectionState = pc.iceConnectionState;
-        const iceGatheringState = pc.iceGatheringState;
-        
-        addDebugInfo(`Connection Monitor - User: ${userId}, Connection: ${connectionState}, ICE: ${iceConnectionState}, Gathering: ${iceGatheringState}`);
-        
-        if (connectionState === 'disconnected' || iceConnectionState === 'disconnected') {
-          addDebugInfo(`⚠️ Connection issue detected for ${userId}, attempting recovery`);
-          
-          setTimeout(() => {
-            if (pc.connectionState === 'disconnected' || pc.iceConnectionState === 'disconnected') {
-              addDebugInfo(`🔄 Restarting ICE for ${userId}`);
-              pc.restartIce();
-            }
-          }, 1000);
+    connectionMonitorRef.current = setInterval(async () => {
+      const next = new Map<string, PeerStats>();
+      const counters = peerStatsCounters.current;
+      for (const [peerId, pc] of Array.from(peerConnections.current.entries())) {
+        // 復旧は onconnectionstatechange から行うので、ここでは状態の記録のみ
+        if (pc.connectionState !== 'connected') {
+          log.debug(`Connection monitor - connection: ${pc.connectionState}, ICE: ${pc.iceConnectionState}, gathering: ${pc.iceGatheringState}`, { peerId });
+          counters.delete(peerId);
+          continue;
+        }
+        try {
+          const sampled = await samplePeerStats(pc, counters.get(peerId));
+          counters.set(peerId, sampled.counters);
+          next.set(peerId, sampled.stats);
+          diagnostics.recordStats(peerId, sampled.stats);
+        } catch (error) {
+          log.warn('Failed to read stats', { peerId, error });
         }
+      }
+      // 退出した相手のカウンタは捨てる
+      counters.forEach((_, peerId) => {
+        if (!peerConnections.current.has(peerId)) counters.delete(peerId);
       });
-    }, 5000);
-  }, [addDebugInfo]);
+      setPeerStats(next);
+    }, PEER_STATS_INTERVAL_MS);
+  }, [log, diagnostics]);
 
   // Initialize WebRTC and Socket connection
   useEffect(() => {
+    const negotiations = negotiationStates.current;
+    const queuedCandidates = pendingCandidates.current;
+    const recoveries = recoveryStates.current;
+    // StrictMode の再マウントなどで先に片付けられた場合、途中の初期化を打ち切る
+    let cancelled = false;
+
     const initializeCall = async () => {
       try {
-        addDebugInfo('🚀 Initializing call...');
+        log.debug('Initializing call...');
         setError(null);
         
-        // 高品質設定でユーザーメディアを取得
-        const stream = await navigator.mediaDevices.getUserMedia({
-          video: HIGH_QUALITY_VIDEO_CONSTRAINTS,
-          audio: AUDIO_CONSTRAINTS
+        // 高品質設定でユーザーメディアを取得（ロビーで選んだデバイスを使用）
+        // カメラ・マイクが使えなくても、音声のみ・視聴のみで参加を続ける
+        const stream = await acquireLocalMedia(initialMedia.devices);
+        if (cancelled) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        const hasVideo = stream.getVideoTracks().length > 0;
+        const hasAudio = stream.getAudioTracks().length > 0;
+        setIsVideoOn(initialMedia.isVideoOn && hasVideo);
+        setIsAudioOn(initialMedia.isAudioOn && hasAudio);
+        if (!hasVideo && !hasAudio) {
+          setMediaNotice('カメラとマイクが使用できないため、視聴のみで参加しています');
+        } else if (!hasVideo) {
+          setMediaNotice('カメラが使用できないため、音声のみで参加しています');
+        } else if (!hasAudio) {
+          setMediaNotice('マイクが使用できないため、映像のみで参加しています');
+        }
+        stream.getVideoTracks().forEach(track => {
+          track.enabled = initialMedia.isVideoOn;
+        });
+        stream.getAudioTracks().forEach(track => {
+          track.enabled = initialMedia.isAudioOn;
         });
         
-        addDebugInfo(`📹 Got local stream with ${stream.getTracks().length} tracks`);
+        log.debug(`Got local stream with ${stream.getTracks().length} tracks`);
+        const cameraStream = stream.clone();
+        localStreamRef.current = stream;
+        localCameraStreamRef.current = cameraStream;
         setLocalStream(stream);
-        setLocalCameraStream(stream.clone());
-        
-        // ローカルビデオを即座に表示
-        if (localVideoRef.current) {
-          localVideoRef.current.srcObject = stream;
-          addDebugInfo('📹 Local video display set');
-        }
+        setLocalCameraStream(cameraStream);
+
+        // TURN の認証情報を含む ICE 設定は、ピア接続を作る前に取得しておく
+        iceConfigRef.current = await loadIceConfig();
+        // 取得したストリームは片付け時に止まっているので、ソケットを開かずに終える
+        if (cancelled) return;
+        log.debug('ICE configuration loaded', { iceServers: iceConfigRef.current.iceServers.length, forceRelay });
 
         // Initialize socket connection
         const socketUrl = window.location.origin;
         
-        addDebugInfo(`🔌 Connecting to socket server: ${socketUrl}`);
-        const newSocket = io(socketUrl, {
+        log.debug(`Connecting to socket server: ${socketUrl}`);
+        const newSocket: SignalingSocket = io(socketUrl, {
           transports: ['websocket', 'polling'],
           timeout: 20000,
           forceNew: true,
@@ -277,6 +468,8 @@ export const VideoCall: React.FC<VideoCallProps> = ({ roomId, userName, onLeaveC
         
         socketRef.current = newSocket;
         setSocket(newSocket);
+        newSocket.onAny((event, payload) => diagnostics.recordSignaling('in', event, payload));
+        newSocket.onAnyOutgoing((event, payload) => diagnostics.recordSignaling('out', event, payload));
 
         // ハートビート機能を追加してコネクションを維持
         const startHeartbeat = () => {
@@ -286,38 +479,94 @@ export const VideoCall: React.FC<VideoCallProps> = ({ roomId, userName, onLeaveC
           heartbeatIntervalRef.current = setInterval(() => {
             if (newSocket.connected) {
               newSocket.emit('ping');
-              addDebugInfo('💓 Heartbeat sent');
+              log.debug('Heartbeat sent');
             }
           }, 20000);
         };
 
         // Socket event handlers
         newSocket.on('connect', () => {
-          addDebugInfo(`✅ Socket connected with ID: ${newSocket.id}`);
+          log.info('Socket connected', { socketId: newSocket.id });
           setConnectionStatus('connected');
           setError(null);
           setReconnectAttempts(0);
           startHeartbeat();
           startConnectionMonitor();
           
-          addDebugInfo(`🚪 Joining room: ${roomId} as user: ${userId.current} (${userName})`);
+          // 再接続時は生きているピア接続を残し、それ以外だけ作り直してもらう
+          const connectedPeers: string[] = [];
+          peerConnections.current.forEach((pc, peerId) => {
+            if (pc.connectionState === 'connected') {
+              connectedPeers.push(peerId);
+            } else {
+              closePeerConnection(peerId);
+            }
+          });
+
+          joinRoom(connectedPeers);
+        });
+
+        const joinRoom = (connectedPeers: string[] = []) => {
+          log.info(`Joining room, keeping ${connectedPeers.length} peers`, { userName });
           newSocket.emit('join-room', {
             roomId,
-            userId: userId.current,
-            userName
+            userName,
+            sessionToken: session.sessionToken,
+            passcode: joinPasscodeRef.current || undefined,
+            create,
+            connectedPeers
+          }, (response) => {
+            const joined = parseAck('join-room', response);
+            if (!joined) {
+              log.error('Invalid join-room response from server');
+              return;
+            }
+            if (joined.status === 'rejected') {
+              // 拒否された場合は自動再接続で参加し直さないよう切断する
+              log.warn(`Join rejected: ${joined.error.code} (${joined.error.message})`);
+              setJoinError(joined.error);
+              newSocket.disconnect();
+              return;
+            }
+            if (joined.status === 'waiting') {
+              log.debug('Waiting for the host to admit us');
+              setIsWaitingForHost(true);
+              return;
+            }
+            userId.current = joined.userId;
+            setSelfUserId(joined.userId);
+            setRole(joined.role);
+            setRoomInfo(joined.room);
+            setIsWaitingForHost(false);
+            log.info(`Joined room as ${joined.role}`, { userId: joined.userId });
+            applyParticipants(joined.participants);
+
+            // 現在のカメラ・マイクの状態を他の参加者に知らせる
+            newSocket.emit('toggle-video', {
+              roomId,
+              isVideoOn: stream.getVideoTracks()[0]?.enabled ?? false
+            });
+            newSocket.emit('toggle-audio', {
+              roomId,
+              isAudioOn: stream.getAudioTracks()[0]?.enabled ?? false
+            });
           });
-        });
+        };
 
         newSocket.on('connect_error', (error) => {
-          addDebugInfo(`❌ Socket connection error: ${error.message}`);
-          setConnectionStatus('failed');
+          log.error(`Socket connection error: ${error.message}`);
+          // 通話中の再接続の失敗では通話画面を残し、再接続のバナーを出し続ける
+          setConnectionStatus(prev => prev === 'reconnecting' ? prev : 'failed');
           setError('サーバーに接続できません');
           setReconnectAttempts(prev => prev + 1);
         });
 
         newSocket.on('disconnect', (reason) => {
-          addDebugInfo(`🔌 Socket disconnected: ${reason}`);
-          setConnectionStatus('connecting');
+          log.debug(`Socket disconnected: ${reason}`);
+          // 自分から切断した場合（退出・参加拒否）は再接続しない
+          if (reason !== 'io client disconnect') {
+            setConnectionStatus('reconnecting');
+          }
           
           if (heartbeatIntervalRef.current) {
             clearInterval(heartbeatIntervalRef.current);
@@ -326,28 +575,111 @@ export const VideoCall: React.FC<VideoCallProps> = ({ roomId, userName, onLeaveC
           if (reason === 'io server disconnect') {
             setTimeout(() => {
               if (!newSocket.connected) {
-                addDebugInfo('🔄 Attempting socket reconnection');
+                log.debug('Attempting socket reconnection');
                 newSocket.connect();
               }
             }, 1000);
           }
         });
 
-        newSocket.on('pong', () => {
-          addDebugInfo('💓 Received pong from server');
+        onServerEvent(newSocket, 'pong', () => {
+          log.debug('Received pong from server');
+        });
+
+        onServerEvent(newSocket, 'room-updated', (room) => {
+          log.debug(`Room updated: locked=${room.locked}`);
+          setRoomInfo(room);
+        });
+
+        // ホスト権限の変更とモデレーション
+        onServerEvent(newSocket, 'role-changed', ({ userId: changedUserId, role: newRole }) => {
+          log.info(`Role changed -> ${newRole}`, { peerId: changedUserId });
+          if (changedUserId === userId.current) {
+            setRole(newRole);
+            if (newRole !== 'host') {
+              setWaitingList([]);
+            }
+            return;
+          }
+          setParticipants(prev => {
+            const participant = prev.get(changedUserId);
+            if (!participant) return prev;
+            const updated = new Map(prev);
+            updated.set(changedUserId, { ...participant, role: newRole });
+            return updated;
+          });
+        });
+
+        onServerEvent(newSocket, 'media-off-requested', ({ kind, byUserName }) => {
+          log.info(`Asked to turn off ${kind}`, { userName: byUserName });
+          const track = kind === 'audio' ? stream.getAudioTracks()[0] : stream.getVideoTracks()[0];
+          if (!track || !track.enabled) return;
+          track.enabled = false;
+          if (kind === 'audio') {
+            setIsAudioOn(false);
+            newSocket.emit('toggle-audio', { roomId, isAudioOn: false });
+            setMediaNotice(`${byUserName}さんがあなたをミュートしました`);
+          } else {
+            setIsVideoOn(false);
+            newSocket.emit('toggle-video', { roomId, isVideoOn: false });
+            setMediaNotice(`${byUserName}さんがあなたのカメラをオフにしました`);
+          }
+        });
+
+        // 待機室
+        onServerEvent(newSocket, 'waiting-list', (entries) => {
+          log.debug(`Waiting list updated: ${entries.length} waiting`);
+          setWaitingList(entries);
+        });
+
+        onServerEvent(newSocket, 'knock-answered', ({ admitted }) => {
+          log.debug(`Knock ${admitted ? 'admitted' : 'denied'}`);
+          if (admitted) {
+            joinRoom();
+          } else {
+            setIsWaitingForHost(false);
+            leaveWithNotice('参加が許可されませんでした', 'ホストがこのルームへの参加を許可しませんでした。');
+          }
+        });
+
+        const leaveWithNotice = (title: string, description: string) => {
+          setExitNotice({ title, description });
+          peerConnections.current.forEach((_, peerId) => closePeerConnection(peerId));
+          setParticipants(new Map());
+          newSocket.disconnect();
+        };
+
+        onServerEvent(newSocket, 'removed-from-room', ({ banned, byUserName }) => {
+          log.info(`Removed from room (banned: ${banned})`, { userName: byUserName });
+          leaveWithNotice(
+            'ルームから退出させられました',
+            banned
+              ? `${byUserName}さんによって退出させられました。このルームには再参加できません。`
+              : `${byUserName}さんによって退出させられました。`
+          );
+        });
+
+        onServerEvent(newSocket, 'meeting-ended', ({ byUserName }) => {
+          log.info('Meeting ended', { userName: byUserName });
+          leaveWithNotice('会議は終了しました', `${byUserName}さんが全員の会議を終了しました。`);
+        });
+
+        onServerEvent(newSocket, 'protocol-error', ({ event, message }) => {
+          log.warn(`Server rejected ${event}: ${message}`);
         });
 
         // WebRTC signaling handlers
-        newSocket.on('user-joined', async ({ userId: newUserId, userName: newUserName }) => {
-          addDebugInfo(`👤 User joined: ${newUserId} (${newUserName})`);
+        onServerEvent(newSocket, 'user-joined', async ({ userId: newUserId, userName: newUserName, role: newUserRole }) => {
+          log.info('User joined', { peerId: newUserId, userName: newUserName });
           
           setParticipants(prev => {
             const updated = new Map(prev);
             if (!updated.has(newUserId)) {
-              addDebugInfo(`➕ Adding new participant: ${newUserId}`);
+              log.debug('Adding new participant', { peerId: newUserId });
               updated.set(newUserId, { 
                 userId: newUserId, 
                 userName: newUserName, 
+                role: newUserRole,
                 isVideoOn: true, 
                 isAudioOn: true,
                 isScreenSharing: false
@@ -356,48 +688,88 @@ export const VideoCall: React.FC<VideoCallProps> = ({ roomId, userName, onLeaveC
             return updated;
           });
 
-          setTimeout(() => {
-            createOfferForUser(newUserId, stream, newSocket);
-          }, 1000);
+          // 既存の参加者側から接続を作成する。トラック追加で onnegotiationneeded が発火しオファーが送られる
+          closePeerConnection(newUserId);
+          createPeerConnection(newUserId, stream);
         });
 
-        newSocket.on('room-participants', (participantsList: Participant[]) => {
-          addDebugInfo(`👥 Existing participants: ${participantsList.length}`);
+        // 参加時に受け取った既存の参加者一覧を反映する
+        const applyParticipants = (participantsList: PublicParticipant[]) => {
+          log.debug(`Existing participants: ${participantsList.length}`);
           
           setParticipants(prev => {
             const updated = new Map(prev);
             participantsList.forEach(participant => {
               if (participant.userId !== userId.current) {
-                addDebugInfo(`➕ Adding existing participant: ${participant.userId} (${participant.userName})`);
+                log.debug('Adding existing participant', { peerId: participant.userId, userName: participant.userName });
+                // 再接続時は既存のストリームなどを保持したまま更新する
                 updated.set(participant.userId, { 
+                  ...updated.get(participant.userId),
                   ...participant, 
-                  isVideoOn: true, 
-                  isAudioOn: true,
-                  isScreenSharing: false
+                  isVideoOn: participant.isVideoOn ?? true, 
+                  isAudioOn: participant.isAudioOn ?? true,
+                  isScreenSharing: participant.isScreenSharing ?? false
                 });
               }
             });
             return updated;
           });
+        };
+
+        // 相手のソケットが一時的に切断された（猶予期間中）
+        onServerEvent(newSocket, 'user-reconnecting', ({ userId: reconnectingUserId }) => {
+          log.debug('User temporarily disconnected', { peerId: reconnectingUserId });
+          setParticipantReconnecting(reconnectingUserId, true);
+        });
+
+        // 相手がセッションを再開し、ピア接続はそのまま使える
+        onServerEvent(newSocket, 'user-resumed', ({ userId: resumedUserId }) => {
+          log.info('User resumed session', { peerId: resumedUserId });
+          if (peerConnections.current.get(resumedUserId)?.connectionState === 'connected') {
+            setParticipantReconnecting(resumedUserId, false);
+          }
+        });
+
+        // チャット履歴（途中参加者向け）とメッセージ受信
+        onServerEvent(newSocket, 'chat-history', (history) => {
+          log.debug(`Received chat history: ${history.length} messages`);
+          setChatMessages(prev => {
+            const merged = new Map(prev.map(message => [message.id, message]));
+            history.forEach(message => merged.set(message.id, message));
+            return Array.from(merged.values()).sort((a, b) => a.timestamp - b.timestamp);
+          });
         });
 
-        newSocket.on('offer', async ({ offer, callerUserId }) => {
-          addDebugInfo(`📞 Received offer from: ${callerUserId}`);
-          await handleIncomingOffer(offer, callerUserId, stream, newSocket);
+        onServerEvent(newSocket, 'chat-message', (message) => {
+          setChatMessages(prev => prev.some(m => m.id === message.id) ? prev : [...prev, message]);
+          if (!showChatRef.current && message.senderUserId !== userId.current) {
+            setUnreadCount(prev => prev + 1);
+          }
         });
 
-        newSocket.on('answer', async ({ answer, answererUserId }) => {
-          addDebugInfo(`📞 Received answer from: ${answererUserId}`);
-          await handleIncomingAnswer(answer, answererUserId);
+        onServerEvent(newSocket, 'offer', async ({ offer, callerUserId, isRebuild }) => {
+          log.debug('Received offer', { peerId: callerUserId });
+          if (isRebuild) {
+            // 相手が接続を作り直したので、こちらも古い接続を破棄して新しく応答する
+            log.debug('Peer rebuilt the connection, discarding ours', { peerId: callerUserId });
+            closePeerConnection(callerUserId);
+          }
+          await handleRemoteDescription(offer, callerUserId, stream, newSocket);
         });
 
-        newSocket.on('ice-candidate', async ({ candidate, senderUserId }) => {
-          addDebugInfo(`🧊 Received ICE candidate from: ${senderUserId} (type: ${candidate.candidate?.split(' ')[7] || 'unknown'})`);
+        onServerEvent(newSocket, 'answer', async ({ answer, answererUserId }) => {
+          log.debug('Received answer', { peerId: answererUserId });
+          await handleRemoteDescription(answer, answererUserId, stream, newSocket);
+        });
+
+        onServerEvent(newSocket, 'ice-candidate', async ({ candidate, senderUserId }) => {
+          log.debug(`Received ICE candidate (type: ${candidateTypeOf(candidate.candidate)})`, { peerId: senderUserId });
+          diagnostics.recordRemoteCandidate(senderUserId, candidate.candidate);
           await handleIncomingIceCandidate(candidate, senderUserId);
         });
 
-        newSocket.on('user-left', ({ userId: leftUserId, userName: leftUserName }) => {
-          addDebugInfo(`👋 User left: ${leftUserId} (${leftUserName})`);
+        onServerEvent(newSocket, 'user-left', ({ userId: leftUserId, userName: leftUserName }) => {
+          log.info('User left', { peerId: leftUserId, userName: leftUserName });
           
           setParticipants(prev => {
             const updated = new Map(prev);
@@ -405,16 +777,12 @@ export const VideoCall: React.FC<VideoCallProps> = ({ roomId, userName, onLeaveC
             return updated;
           });
           
-          const peerConnection = peerConnections.current.get(leftUserId);
-          if (peerConnection) {
-            peerConnection.close();
-            peerConnections.current.delete(leftUserId);
-            addDebugInfo(`🔒 Closed peer connection for: ${leftUserId}`);
-          }
+          resetRecovery(leftUserId);
+          closePeerConnection(leftUserId);
         });
 
-        newSocket.on('user-video-toggled', ({ userId: toggledUserId, isVideoOn: videoOn }) => {
-          addDebugInfo(`📹 User video toggled: ${toggledUserId} -> ${videoOn}`);
+        onServerEvent(newSocket, 'user-video-toggled', ({ userId: toggledUserId, isVideoOn: videoOn }) => {
+          log.debug(`User video toggled -> ${videoOn}`, { peerId: toggledUserId });
           setParticipants(prev => {
             const updated = new Map(prev);
             const participant = updated.get(toggledUserId);
@@ -425,8 +793,8 @@ export const VideoCall: React.FC<VideoCallProps> = ({ roomId, userName, onLeaveC
           });
         });
 
-        newSocket.on('user-audio-toggled', ({ userId: toggledUserId, isAudioOn: audioOn }) => {
-          addDebugInfo(`🎤 User audio toggled: ${toggledUserId} -> ${audioOn}`);
+        onServerEvent(newSocket, 'user-audio-toggled', ({ userId: toggledUserId, isAudioOn: audioOn }) => {
+          log.debug(`User audio toggled -> ${audioOn}`, { peerId: toggledUserId });
           setParticipants(prev => {
             const updated = new Map(prev);
             const participant = updated.get(toggledUserId);
@@ -437,8 +805,8 @@ export const VideoCall: React.FC<VideoCallProps> = ({ roomId, userName, onLeaveC
           });
         });
 
-        newSocket.on('user-screen-share-started', ({ userId: sharingUserId, userName: sharingUserName }) => {
-          addDebugInfo(`🖥️ User started screen sharing: ${sharingUserId} (${sharingUserName})`);
+        onServerEvent(newSocket, 'user-screen-share-started', ({ userId: sharingUserId, userName: sharingUserName }) => {
+          log.debug('User started screen sharing', { peerId: sharingUserId, userName: sharingUserName });
           setParticipants(prev => {
             const updated = new Map(prev);
             const participant = updated.get(sharingUserId);
@@ -449,8 +817,8 @@ export const VideoCall: React.FC<VideoCallProps> = ({ roomId, userName, onLeaveC
           });
         });
 
-        newSocket.on('user-screen-share-stopped', ({ userId: sharingUserId }) => {
-          addDebugInfo(`🖥️ User stopped screen sharing: ${sharingUserId}`);
+        onServerEvent(newSocket, 'user-screen-share-stopped', ({ userId: sharingUserId }) => {
+          log.debug('User stopped screen sharing', { peerId: sharingUserId });
           setParticipants(prev => {
             const updated = new Map(prev);
             const participant = updated.get(sharingUserId);
@@ -462,16 +830,18 @@ export const VideoCall: React.FC<VideoCallProps> = ({ roomId, userName, onLeaveC
         });
 
       } catch (error) {
-        addDebugInfo(`❌ Error initializing call: ${error}`);
+        if (cancelled) return;
+        log.error('Error initializing call', { error });
         setConnectionStatus('failed');
-        setError('カメラまたはマイクにアクセスできません');
+        setError('通話を開始できません');
       }
     };
 
     initializeCall();
 
     return () => {
-      addDebugInfo('🧹 Cleanup started');
+      log.debug('Cleanup started');
+      cancelled = true;
       
       if (heartbeatIntervalRef.current) {
         clearInterval(heartbeatIntervalRef.current);
@@ -483,61 +853,234 @@ export const VideoCall: React.FC<VideoCallProps> = ({ roomId, userName, onLeaveC
         clearInterval(connectionMonitorRef.current);
       }
       
-      if (localStream) {
-        localStream.getTracks().forEach(track => {
+      if (localStreamRef.current) {
+        localStreamRef.current.getTracks().forEach(track => {
           track.stop();
-          addDebugInfo(`🛑 Stopped track: ${track.kind}`);
+          log.debug(`Stopped track: ${track.kind}`);
         });
+        localStreamRef.current = null;
       }
-      if (localCameraStream) {
-        localCameraStream.getTracks().forEach(track => {
+      if (localCameraStreamRef.current) {
+        localCameraStreamRef.current.getTracks().forEach(track => {
           track.stop();
         });
+        localCameraStreamRef.current = null;
       }
       
       peerConnections.current.forEach((pc, userId) => {
         pc.close();
-        addDebugInfo(`🔒 Closed peer connection for: ${userId}`);
+        log.debug('Closed peer connection', { peerId: userId });
       });
       peerConnections.current.clear();
+      negotiations.clear();
+      queuedCandidates.clear();
+      recoveries.forEach(recovery => {
+        if (recovery.timer) {
+          clearTimeout(recovery.timer);
+        }
+      });
+      recoveries.clear();
       
       if (socketRef.current) {
+        // 自分で退出した場合は猶予期間を待たずにすぐ退出させる
+        socketRef.current.emit('leave-room', { roomId });
         socketRef.current.disconnect();
         socketRef.current = null;
-        addDebugInfo('🔌 Socket disconnected');
+        clearSession(roomId);
+        log.debug('Socket disconnected');
       }
     };
-  }, [roomId, userName, addDebugInfo, startConnectionMonitor]);
+  }, [roomId, userName, initialMedia, session, log, startConnectionMonitor, diagnostics]);
 
-  const createPeerConnection = (targetUserId: string, stream: MediaStream) => {
-    addDebugInfo(`🔗 Creating peer connection for: ${targetUserId}`);
-    
-    const peerConnection = new RTCPeerConnection({
-      iceServers: ICE_SERVERS,
-      iceCandidatePoolSize: 10,
-      iceTransportPolicy: 'all',
-      bundlePolicy: 'max-bundle',
-      rtcpMuxPolicy: 'require'
+  // ICE 設定を取り直して既存の接続にも反映する。以降の ICE 再起動は新しい認証情報を使う
+  const refreshIceConfig = useCallback(async () => {
+    const config = await loadIceConfig();
+    iceConfigRef.current = config;
+    peerConnections.current.forEach((pc, peerId) => {
+      try {
+        pc.setConfiguration(toRTCConfiguration(config, forceRelay));
+      } catch (error) {
+        log.warn('Failed to update ICE configuration', { peerId, error });
+      }
     });
+    log.debug('ICE configuration refreshed', { expiresAt: config.expiresAt });
+  }, [forceRelay, log]);
 
-    stream.getTracks().forEach(track => {
-      addDebugInfo(`➕ Adding ${track.kind} track to peer connection for: ${targetUserId}`);
-      peerConnection.addTrack(track, stream);
+  // TURN の認証情報が切れる前に更新する
+  useEffect(() => {
+    const interval = setInterval(() => {
+      if (needsRefresh(iceConfigRef.current)) {
+        refreshIceConfig();
+      }
+    }, ICE_CONFIG_CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [refreshIceConfig]);
+
+  const closePeerConnection = (targetUserId: string) => {
+    const peerConnection = peerConnections.current.get(targetUserId);
+    if (peerConnection) {
+      peerConnection.close();
+      peerConnections.current.delete(targetUserId);
+      log.debug('Closed peer connection', { peerId: targetUserId });
+    }
+    negotiationStates.current.delete(targetUserId);
+    pendingCandidates.current.delete(targetUserId);
+  };
+
+  const setParticipantReconnecting = (targetUserId: string, isReconnecting: boolean) => {
+    setParticipants(prev => {
+      const participant = prev.get(targetUserId);
+      if (!participant || Boolean(participant.isReconnecting) === isReconnecting) {
+        return prev;
+      }
+      const updated = new Map(prev);
+      updated.set(targetUserId, { ...participant, isReconnecting });
+      return updated;
     });
+  };
+
+  const resetRecovery = (targetUserId: string) => {
+    const recovery = recoveryStates.current.get(targetUserId);
+    if (recovery?.timer) {
+      clearTimeout(recovery.timer);
+    }
+    recoveryStates.current.delete(targetUserId);
+    setParticipantReconnecting(targetUserId, false);
+  };
+
+  // ICE再起動を数回試しても回復しない場合は接続ごと作り直す
+  const rebuildPeerConnection = (targetUserId: string) => {
+    const stream = localStreamRef.current;
+    if (!stream) return;
+
+    log.debug('Rebuilding peer connection', { peerId: targetUserId });
+    closePeerConnection(targetUserId);
+    createPeerConnection(targetUserId, stream, true);
+  };
+
+  const runRecoveryStep = async (targetUserId: string) => {
+    const peerConnection = peerConnections.current.get(targetUserId);
+    const recovery = recoveryStates.current.get(targetUserId);
+    if (!peerConnection || !recovery) return;
+
+    if (peerConnection.connectionState === 'connected') {
+      resetRecovery(targetUserId);
+      return;
+    }
+
+    let nextDelay: number;
+    if (recovery.attempts >= MAX_ICE_RESTARTS) {
+      log.error(`ICE restart failed ${recovery.attempts} times`, { peerId: targetUserId });
+      recovery.attempts = 0;
+      rebuildPeerConnection(targetUserId);
+      nextDelay = ICE_RESTART_MAX_DELAY;
+    } else {
+      recovery.attempts += 1;
+      log.debug(`ICE restart attempt ${recovery.attempts}/${MAX_ICE_RESTARTS}`, { peerId: targetUserId });
+      try {
+        // 応答のないオファーが残っていると再交渉できないので取り消す
+        if (peerConnection.signalingState === 'have-local-offer') {
+          await peerConnection.setLocalDescription({ type: 'rollback' });
+        }
+        // restartIce() で onnegotiationneeded が発火し、ICE再起動のオファーが送られる
+        peerConnection.restartIce();
+      } catch (error) {
+        log.error('Error restarting ICE', { peerId: targetUserId, error });
+      }
+      nextDelay = Math.min(ICE_RESTART_BASE_DELAY * 2 ** recovery.attempts, ICE_RESTART_MAX_DELAY);
+    }
+
+    recovery.timer = setTimeout(() => {
+      recovery.timer = null;
+      runRecoveryStep(targetUserId);
+    }, nextDelay);
+  };
+
+  const startRecovery = (targetUserId: string, delay: number) => {
+    setParticipantReconnecting(targetUserId, true);
+
+    // 両側が同時に再起動しないよう、復旧は impolite 側が主導する
+    if (negotiationStates.current.get(targetUserId)?.polite) {
+      log.debug('Waiting to restart ICE', { peerId: targetUserId });
+      return;
+    }
+
+    const recovery = recoveryStates.current.get(targetUserId) ?? { attempts: 0, timer: null };
+    recoveryStates.current.set(targetUserId, recovery);
+    // すでに復旧を予定している場合は重複させない
+    if (recovery.timer) return;
+
+    recovery.timer = setTimeout(() => {
+      recovery.timer = null;
+      runRecoveryStep(targetUserId);
+    }, delay);
+  };
+
+  const createPeerConnection = (targetUserId: string, stream: MediaStream, isRebuild = false) => {
+    log.debug('Creating peer connection', { peerId: targetUserId });
+
+    // IDの大小で polite/impolite を決める（双方で必ず逆になる）
+    const negotiation: NegotiationState = {
+      polite: userId.current > targetUserId,
+      makingOffer: false,
+      ignoreOffer: false,
+      isSettingRemoteAnswerPending: false,
+      isRebuild
+    };
+    negotiationStates.current.set(targetUserId, negotiation);
+    
+    if (needsRefresh(iceConfigRef.current)) {
+      refreshIceConfig();
+    }
+    const peerConnection = new RTCPeerConnection(toRTCConfiguration(iceConfigRef.current, forceRelay));
+
+    (['audio', 'video'] as const).forEach(kind => {
+      const track = kind === 'video' ? stream.getVideoTracks()[0] : stream.getAudioTracks()[0];
+      if (track) {
+        log.debug(`Adding ${track.kind} track to peer connection`, { peerId: targetUserId });
+        peerConnection.addTrack(track, stream);
+      } else {
+        // デバイスがない場合は受信専用で交渉し、相手の映像・音声は受け取る
+        log.debug(`No local ${kind} track, negotiating recvonly`, { peerId: targetUserId });
+        peerConnection.addTransceiver(kind, { direction: 'recvonly' });
+      }
+    });
+
+    // トラックの追加・変更時は自動的に再交渉する
+    peerConnection.onnegotiationneeded = async () => {
+      try {
+        negotiation.makingOffer = true;
+        await peerConnection.setLocalDescription();
+        log.debug('Negotiation needed, sending offer', { peerId: targetUserId });
+        const offer = toSessionDescription(peerConnection.localDescription);
+        if (!offer) return;
+        socketRef.current?.emit('offer', {
+          targetUserId,
+          offer,
+          roomId,
+          isRebuild: negotiation.isRebuild
+        });
+        negotiation.isRebuild = false;
+      } catch (error) {
+        log.error('Error creating offer', { peerId: targetUserId, error });
+      } finally {
+        negotiation.makingOffer = false;
+      }
+    };
 
     peerConnection.ontrack = (event) => {
-      addDebugInfo(`📺 Received remote ${event.track.kind} track from: ${targetUserId}`);
-      const [remoteStream] = event.streams;
+      log.debug(`Received remote ${event.track.kind} track`, { peerId: targetUserId });
+      const remoteStream = event.streams[0] ?? new MediaStream([event.track]);
       
       remoteStream.getTracks().forEach(track => {
         track.onended = () => {
-          addDebugInfo(`🔚 Remote ${track.kind} track ended from: ${targetUserId}`);
+          log.debug(`Remote ${track.kind} track ended`, { peerId: targetUserId });
         };
         track.onmute = () => {
-          addDebugInfo(`🔇 Remote ${track.kind} track muted from: ${targetUserId}`);
+          log.debug(`Remote ${track.kind} track muted`, { peerId: targetUserId });
         };
         track.onunmute = () => {
-          addDebugInfo(`🔊 Remote ${track.kind} track unmuted from: ${targetUserId}`);
+          log.debug(`Remote ${track.kind} track unmuted`, { peerId: targetUserId });
         };
       });
       
@@ -545,7 +1088,7 @@ export const VideoCall: React.FC<VideoCallProps> = ({ roomId, userName, onLeaveC
         const updated = new Map(prev);
         const participant = updated.get(targetUserId);
         if (participant) {
-          addDebugInfo(`📺 Setting stream for participant: ${targetUserId}`);
+          log.debug('Setting stream for participant', { peerId: targetUserId });
           const updatedParticipant = { ...participant, stream: remoteStream };
           
           if (participant.isScreenSharing) {
@@ -560,184 +1103,246 @@ export const VideoCall: React.FC<VideoCallProps> = ({ roomId, userName, onLeaveC
 
     peerConnection.onicecandidate = (event) => {
       if (event.candidate && socketRef.current) {
-        const candidateType = event.candidate.candidate?.split(' ')[7] || 'unknown';
-        addDebugInfo(`🧊 Sending ICE candidate to ${targetUserId} (type: ${candidateType})`);
+        log.debug(`Sending ICE candidate (type: ${candidateTypeOf(event.candidate.candidate)})`, { peerId: targetUserId });
+        diagnostics.recordLocalCandidate(targetUserId, event.candidate.candidate);
         socketRef.current.emit('ice-candidate', {
           targetUserId,
-          candidate: event.candidate,
+          candidate: toIceCandidate(event.candidate),
           roomId
         });
       } else if (!event.candidate) {
-        addDebugInfo(`✅ ICE gathering complete for: ${targetUserId}`);
+        log.info('ICE gathering complete', { peerId: targetUserId });
       }
     };
 
     peerConnection.onconnectionstatechange = () => {
+      // 作り直し済みの古い接続からのイベントは無視
+      if (peerConnections.current.get(targetUserId) !== peerConnection) return;
+
       const state = peerConnection.connectionState;
-      addDebugInfo(`🔄 Peer connection state with ${targetUserId}: ${state}`);
+      log.debug(`Peer connection state: ${state}`, { peerId: targetUserId });
       
       if (state === 'failed') {
-        addDebugInfo(`❌ Peer connection failed with ${targetUserId}, restarting ICE`);
-        peerConnection.restartIce();
+        log.error('Peer connection failed, starting recovery', { peerId: targetUserId });
+        startRecovery(targetUserId, 0);
       } else if (state === 'disconnected') {
-        addDebugInfo(`⚠️ Peer connection disconnected with ${targetUserId}, scheduling reconnect`);
-        setTimeout(() => {
-          if (peerConnection.connectionState === 'disconnected' || 
-              peerConnection.connectionState === 'failed') {
-            addDebugInfo(`🔄 Attempting ICE restart for: ${targetUserId}`);
-            peerConnection.restartIce();
-          }
-        }, 2000);
+        // 一時的な切断は自然に回復することが多いので少し待つ
+        log.warn('Peer connection disconnected, scheduling recovery', { peerId: targetUserId });
+        startRecovery(targetUserId, DISCONNECTED_GRACE_PERIOD);
       } else if (state === 'connected') {
-        addDebugInfo(`✅ Peer connection established successfully with: ${targetUserId}`);
+        log.info('Peer connection established', { peerId: targetUserId });
+        resetRecovery(targetUserId);
       }
     };
 
     peerConnection.oniceconnectionstatechange = () => {
       const iceState = peerConnection.iceConnectionState;
-      addDebugInfo(`🧊 ICE connection state with ${targetUserId}: ${iceState}`);
-      
-      if (iceState === 'failed') {
-        addDebugInfo(`❌ ICE connection failed with ${targetUserId}, restarting`);
-        peerConnection.restartIce();
-      } else if (iceState === 'disconnected') {
-        addDebugInfo(`⚠️ ICE connection disconnected with ${targetUserId}`);
-        setTimeout(() => {
-          if (peerConnection.iceConnectionState === 'disconnected' || 
-              peerConnection.iceConnectionState === 'failed') {
-            addDebugInfo(`🔄 ICE restart due to disconnection: ${targetUserId}`);
-            peerConnection.restartIce();
-          }
-        }, 3000);
-      } else if (iceState === 'connected' || iceState === 'completed') {
-        addDebugInfo(`✅ ICE connection established with: ${targetUserId}`);
-      }
+      log.debug(`ICE connection state: ${iceState}`, { peerId: targetUserId });
     };
 
     peerConnection.onicegatheringstatechange = () => {
-      addDebugInfo(`🧊 ICE gathering state with ${targetUserId}: ${peerConnection.iceGatheringState}`);
+      log.debug(`ICE gathering state: ${peerConnection.iceGatheringState}`, { peerId: targetUserId });
     };
 
     peerConnections.current.set(targetUserId, peerConnection);
     return peerConnection;
   };
 
-  const createOfferForUser = async (targetUserId: string, stream: MediaStream, socket: Socket) => {
-    try {
-      addDebugInfo(`📞 Creating offer for user: ${targetUserId}`);
-      const peerConnection = createPeerConnection(targetUserId, stream);
-      
-      const offer = await peerConnection.createOffer({
-        offerToReceiveAudio: true,
-        offerToReceiveVideo: true,
-        iceRestart: false
-      });
-      
-      await peerConnection.setLocalDescription(offer);
-      addDebugInfo(`📞 Local description set, sending offer to: ${targetUserId}`);
-      
-      socket.emit('offer', {
-        targetUserId,
-        offer,
-        roomId
-      });
-    } catch (error) {
-      addDebugInfo(`❌ Error creating offer for ${targetUserId}: ${error}`);
+  const flushPendingCandidates = async (senderUserId: string, peerConnection: RTCPeerConnection) => {
+    const queued = pendingCandidates.current.get(senderUserId);
+    if (!queued || queued.length === 0) return;
+
+    pendingCandidates.current.delete(senderUserId);
+    log.debug(`Applying ${queued.length} queued ICE candidates`, { peerId: senderUserId });
+    for (const candidate of queued) {
+      try {
+        await peerConnection.addIceCandidate(candidate);
+      } catch (error) {
+        log.error('Error adding queued ICE candidate', { peerId: senderUserId, error });
+      }
     }
   };
 
-  const handleIncomingOffer = async (offer: RTCSessionDescriptionInit, callerUserId: string, stream: MediaStream, socket: Socket) => {
+  // Perfect negotiation: オファーの衝突時は polite 側がロールバックし、impolite 側は無視する
+  const handleRemoteDescription = async (description: RTCSessionDescriptionInit, fromUserId: string, stream: MediaStream, socket: SignalingSocket) => {
     try {
-      addDebugInfo(`📞 Handling incoming offer from: ${callerUserId}`);
-      const peerConnection = createPeerConnection(callerUserId, stream);
-      
-      await peerConnection.setRemoteDescription(offer);
-      addDebugInfo(`📞 Remote description set for offer from: ${callerUserId}`);
-      
-      const answer = await peerConnection.createAnswer();
-      await peerConnection.setLocalDescription(answer);
-      addDebugInfo(`📞 Created and set local description for answer to: ${callerUserId}`);
-      
-      socket.emit('answer', {
-        targetUserId: callerUserId,
-        answer,
-        roomId
-      });
-      addDebugInfo(`📞 Answer sent to: ${callerUserId}`);
+      const peerConnection = peerConnections.current.get(fromUserId) ?? createPeerConnection(fromUserId, stream);
+      const negotiation = negotiationStates.current.get(fromUserId)!;
+
+      const readyForOffer = !negotiation.makingOffer &&
+        (peerConnection.signalingState === 'stable' || negotiation.isSettingRemoteAnswerPending);
+      const offerCollision = description.type === 'offer' && !readyForOffer;
+
+      negotiation.ignoreOffer = !negotiation.polite && offerCollision;
+      if (negotiation.ignoreOffer) {
+        log.warn('Offer collision, ignoring (impolite)', { peerId: fromUserId });
+        return;
+      }
+
+      if (offerCollision) {
+        log.debug('Offer collision, rolling back (polite)', { peerId: fromUserId });
+        await peerConnection.setLocalDescription({ type: 'rollback' });
+      }
+
+      negotiation.isSettingRemoteAnswerPending = description.type === 'answer';
+      await peerConnection.setRemoteDescription(description);
+      negotiation.isSettingRemoteAnswerPending = false;
+      log.debug(`Remote ${description.type} set`, { peerId: fromUserId });
+
+      await flushPendingCandidates(fromUserId, peerConnection);
+
+      if (description.type === 'offer') {
+        await peerConnection.setLocalDescription();
+        const answer = toSessionDescription(peerConnection.localDescription);
+        if (!answer) return;
+        socket.emit('answer', {
+          targetUserId: fromUserId,
+          answer,
+          roomId
+        });
+        log.debug('Answer sent', { peerId: fromUserId });
+      }
     } catch (error) {
-      addDebugInfo(`❌ Error handling offer from ${callerUserId}: ${error}`);
+      log.error(`Error handling ${description.type}`, { peerId: fromUserId, error });
     }
   };
 
-  const handleIncomingAnswer = async (answer: RTCSessionDescriptionInit, answererUserId: string) => {
+  const handleIncomingIceCandidate = async (candidate: RTCIceCandidateInit, senderUserId: string) => {
+    const peerConnection = peerConnections.current.get(senderUserId);
+    if (!peerConnection || !peerConnection.remoteDescription) {
+      const queued = pendingCandidates.current.get(senderUserId) ?? [];
+      queued.push(candidate);
+      pendingCandidates.current.set(senderUserId, queued);
+      log.debug(`Queued ICE candidate (${queued.length} pending)`, { peerId: senderUserId });
+      return;
+    }
+
     try {
-      const peerConnection = peerConnections.current.get(answererUserId);
-      if (peerConnection) {
-        await peerConnection.setRemoteDescription(answer);
-        addDebugInfo(`📞 Remote description set for answer from: ${answererUserId}`);
-      } else {
-        addDebugInfo(`❌ No peer connection found for answer from: ${answererUserId}`);
-      }
+      await peerConnection.addIceCandidate(candidate);
+      log.debug(`ICE candidate added (type: ${candidateTypeOf(candidate.candidate)})`, { peerId: senderUserId });
     } catch (error) {
-      addDebugInfo(`❌ Error handling answer from ${answererUserId}: ${error}`);
+      // 無視したオファーに対応する候補は追加に失敗するので問題ない
+      if (!negotiationStates.current.get(senderUserId)?.ignoreOffer) {
+        log.error('Error handling ICE candidate', { peerId: senderUserId, error });
+      }
     }
   };
 
-  const handleIncomingIceCandidate = async (candidate: RTCIceCandidateInit, senderUserId: string) => {
+  // 参加後にカメラ・マイクを有効にし、各ピアに送信トラックを追加して再交渉する
+  const enableLocalDevice = useCallback(async (kind: 'audio' | 'video', deviceId: string) => {
+    if (!localStream) return false;
+
+    let newTrack: MediaStreamTrack;
     try {
-      const peerConnection = peerConnections.current.get(senderUserId);
-      if (peerConnection && peerConnection.remoteDescription) {
-        await peerConnection.addIceCandidate(candidate);
-        const candidateType = candidate.candidate?.split(' ')[7] || 'unknown';
-        addDebugInfo(`✅ ICE candidate added from ${senderUserId} (type: ${candidateType})`);
+      log.debug(`Enabling ${kind} device: ${deviceId || 'default'}`);
+      const newStream = await navigator.mediaDevices.getUserMedia(
+        kind === 'video'
+          ? { video: buildVideoConstraints(deviceId) }
+          : { audio: buildAudioConstraints(deviceId) }
+      );
+      newTrack = kind === 'video' ? newStream.getVideoTracks()[0] : newStream.getAudioTracks()[0];
+    } catch (error) {
+      log.error(`Failed to enable ${kind} device`, { error });
+      setMediaNotice(kind === 'video' ? 'カメラにアクセスできません' : 'マイクにアクセスできません');
+      return false;
+    }
+
+    localStream.addTrack(newTrack);
+    if (kind === 'video' && localCameraStream) {
+      localCameraStream.addTrack(newTrack.clone());
+    }
+
+    for (const [targetUserId, pc] of peerConnections.current) {
+      const transceiver = pc.getTransceivers().find(t =>
+        t.receiver.track.kind === kind && !t.sender.track && t.direction !== 'stopped'
+      );
+      if (transceiver) {
+        await transceiver.sender.replaceTrack(newTrack);
+        transceiver.sender.setStreams?.(localStream);
+        transceiver.direction = 'sendrecv';
       } else {
-        addDebugInfo(`⚠️ Peer connection not ready for ICE candidate from: ${senderUserId}`);
+        pc.addTrack(newTrack, localStream);
       }
-    } catch (error) {
-      addDebugInfo(`❌ Error handling ICE candidate from ${senderUserId}: ${error}`);
+      // 再交渉は onnegotiationneeded で行われる
+      log.debug(`Attached ${kind} track`, { peerId: targetUserId });
     }
-  };
 
-  const toggleVideo = useCallback(() => {
+    if (localVideoRef.current && kind === 'video') {
+      localVideoRef.current.srcObject = localStream;
+    }
+
+    const hasVideo = localStream.getVideoTracks().length > 0;
+    const hasAudio = localStream.getAudioTracks().length > 0;
+    if (hasVideo && hasAudio) {
+      setMediaNotice(null);
+    } else if (hasVideo) {
+      setMediaNotice('マイクが使用できないため、映像のみで参加しています');
+    } else if (hasAudio) {
+      setMediaNotice('カメラが使用できないため、音声のみで参加しています');
+    }
+    return true;
+  }, [localStream, localCameraStream, log]);
+
+  const toggleVideo = useCallback(async () => {
     if (localStream) {
       const videoTrack = localStream.getVideoTracks()[0];
-      if (videoTrack) {
-        videoTrack.enabled = !videoTrack.enabled;
-        setIsVideoOn(videoTrack.enabled);
-        addDebugInfo(`📹 Video toggled: ${videoTrack.enabled}`);
-        
-        if (socket) {
-          socket.emit('toggle-video', {
+      if (!videoTrack) {
+        // カメラなしで参加していた場合は、ここで初めてカメラを取得する
+        if (await enableLocalDevice('video', selectedDevices.videoInput)) {
+          setIsVideoOn(true);
+          socket?.emit('toggle-video', {
             roomId,
-            isVideoOn: videoTrack.enabled
+            isVideoOn: true
           });
         }
+        return;
+      }
+
+      videoTrack.enabled = !videoTrack.enabled;
+      setIsVideoOn(videoTrack.enabled);
+      log.debug(`Video toggled: ${videoTrack.enabled}`);
+      
+      if (socket) {
+        socket.emit('toggle-video', {
+          roomId,
+          isVideoOn: videoTrack.enabled
+        });
       }
     }
-  }, [localStream, socket, roomId, addDebugInfo]);
+  }, [localStream, socket, roomId, selectedDevices.videoInput, enableLocalDevice, log]);
 
-  const toggleAudio = useCallback(() => {
+  const toggleAudio = useCallback(async () => {
     if (localStream) {
       const audioTrack = localStream.getAudioTracks()[0];
-      if (audioTrack) {
-        audioTrack.enabled = !audioTrack.enabled;
-        setIsAudioOn(audioTrack.enabled);
-        addDebugInfo(`🎤 Audio toggled: ${audioTrack.enabled}`);
-        
-        if (socket) {
-          socket.emit('toggle-audio', {
+      if (!audioTrack) {
+        // マイクなしで参加していた場合は、ここで初めてマイクを取得する
+        if (await enableLocalDevice('audio', selectedDevices.audioInput)) {
+          setIsAudioOn(true);
+          socket?.emit('toggle-audio', {
             roomId,
-            isAudioOn: audioTrack.enabled
+            isAudioOn: true
           });
         }
+        return;
+      }
+
+      audioTrack.enabled = !audioTrack.enabled;
+      setIsAudioOn(audioTrack.enabled);
+      log.debug(`Audio toggled: ${audioTrack.enabled}`);
+      
+      if (socket) {
+        socket.emit('toggle-audio', {
+          roomId,
+          isAudioOn: audioTrack.enabled
+        });
       }
     }
-  }, [localStream, socket, roomId, addDebugInfo]);
+  }, [localStream, socket, roomId, selectedDevices.audioInput, enableLocalDevice, log]);
 
   const toggleScreenShare = useCallback(async () => {
     if (!isScreenSharing) {
       try {
-        addDebugInfo('🖥️ Starting screen share');
+        log.debug('Starting screen share');
         const screenStream = await navigator.mediaDevices.getDisplayMedia({
           video: ULTRA_HIGH_SCREEN_CONSTRAINTS,
           audio: {
@@ -749,85 +1354,319 @@ export const VideoCall: React.FC<VideoCallProps> = ({ roomId, userName, onLeaveC
         });
         
         const videoTrack = screenStream.getVideoTracks()[0];
-        peerConnections.current.forEach(pc => {
-          const sender = pc.getSenders().find(s => s.track?.kind === 'video');
-          if (sender) {
-            sender.replaceTrack(videoTrack);
-          }
+        peerConnections.current.forEach((pc, peerId) => {
+          replaceVideoTrack(pc, videoTrack, localStream).catch(error => {
+            log.error('Failed to send screen share', { peerId, error });
+          });
         });
         
         openScreenShareWindow(screenStream, userName, userId.current);
         
-        if (localVideoRef.current && localCameraStream) {
-          localVideoRef.current.srcObject = localCameraStream;
-        }
-        
         setIsScreenSharing(true);
-        addDebugInfo('✅ Screen share started');
+        log.info('Screen share started');
         
         if (socket) {
-          socket.emit('screen-share-started', {
-            roomId,
-            userId: userId.current,
-            userName
-          });
+          socket.emit('screen-share-started', { roomId });
         }
         
         videoTrack.onended = () => {
-          addDebugInfo('🖥️ Screen share ended by user');
+          log.debug('Screen share ended by user');
           stopScreenShare();
         };
         
       } catch (error) {
-        addDebugInfo(`❌ Error starting screen share: ${error}`);
+        log.error('Error starting screen share', { error });
       }
     } else {
       stopScreenShare();
     }
-  }, [isScreenSharing, addDebugInfo, localCameraStream, socket, roomId, userName, openScreenShareWindow]);
+  }, [isScreenSharing, log, localStream, localCameraStream, socket, roomId, userName, openScreenShareWindow]);
 
   const stopScreenShare = useCallback(async () => {
     if (localCameraStream) {
-      addDebugInfo('🖥️ Stopping screen share');
+      log.debug('Stopping screen share');
       const videoTrack = localCameraStream.getVideoTracks()[0];
       
-      peerConnections.current.forEach(pc => {
-        const sender = pc.getSenders().find(s => s.track?.kind === 'video');
-        if (sender && videoTrack) {
-          sender.replaceTrack(videoTrack);
-        }
+      // カメラがなければ送信を止めるだけにする
+      peerConnections.current.forEach((pc, peerId) => {
+        replaceVideoTrack(pc, videoTrack ?? null, localStream).catch(error => {
+          log.error('Failed to restore camera after screen share', { peerId, error });
+        });
       });
       
-      if (localVideoRef.current) {
-        localVideoRef.current.srcObject = localCameraStream;
-      }
-      
       closeScreenShareWindow();
       setIsScreenSharing(false);
-      addDebugInfo('✅ Screen share stopped');
+      log.info('Screen share stopped');
       
       if (socket) {
-        socket.emit('screen-share-stopped', {
-          roomId,
-          userId: userId.current
+        socket.emit('screen-share-stopped', { roomId });
+      }
+    }
+  }, [localStream, localCameraStream, log, socket, roomId, closeScreenShareWindow]);
+
+  // 利用可能なデバイス一覧を更新
+  const refreshDevices = useCallback(async () => {
+    try {
+      const deviceList = await navigator.mediaDevices.enumerateDevices();
+      setDevices(deviceList.filter(device => device.deviceId));
+      return deviceList;
+    } catch (error) {
+      log.error('Failed to enumerate devices', { error });
+      return [];
+    }
+  }, [log]);
+
+  // 通話中にカメラ・マイクを切り替え、全てのピア接続の送信トラックを差し替える
+  const switchInputDevice = useCallback(async (kind: 'audio' | 'video', deviceId: string) => {
+    if (!localStream) return;
+
+    // デバイスなしで参加中の場合は選択だけ記憶し、オンにしたときに使う
+    const currentTrack = kind === 'video' ? localStream.getVideoTracks()[0] : localStream.getAudioTracks()[0];
+    if (!currentTrack) {
+      setSelectedDevices(prev => ({ ...prev, [kind === 'video' ? 'videoInput' : 'audioInput']: deviceId }));
+      return;
+    }
+
+    try {
+      log.debug(`Switching ${kind} input to: ${deviceId || 'default'}`);
+      const newStream = await navigator.mediaDevices.getUserMedia(
+        kind === 'video'
+          ? { video: buildVideoConstraints(deviceId) }
+          : { audio: buildAudioConstraints(deviceId) }
+      );
+      const newTrack = kind === 'video' ? newStream.getVideoTracks()[0] : newStream.getAudioTracks()[0];
+      const oldTrack = currentTrack;
+      newTrack.enabled = kind === 'video' ? isVideoOn : isAudioOn;
+
+      // 画面共有中は画面のトラックを送信しているので、カメラは送信トラックを差し替えない
+      if (!(kind === 'video' && isScreenSharing)) {
+        await Promise.all(Array.from(peerConnections.current.values()).map(pc => {
+          const sender = pc.getSenders().find(s => s.track?.kind === kind);
+          return sender ? sender.replaceTrack(newTrack) : Promise.resolve();
+        }));
+      }
+
+      if (oldTrack) {
+        localStream.removeTrack(oldTrack);
+        oldTrack.stop();
+      }
+      localStream.addTrack(newTrack);
+
+      if (kind === 'video' && localCameraStream) {
+        localCameraStream.getVideoTracks().forEach(track => {
+          localCameraStream.removeTrack(track);
+          track.stop();
         });
+        localCameraStream.addTrack(newTrack.clone());
       }
+
+      setSelectedDevices(prev => ({ ...prev, [kind === 'video' ? 'videoInput' : 'audioInput']: deviceId }));
+      log.info(`Switched ${kind} input to: ${newTrack.label}`);
+    } catch (error) {
+      log.error(`Failed to switch ${kind} input`, { error });
+    }
+  }, [localStream, localCameraStream, isVideoOn, isAudioOn, isScreenSharing, log]);
+
+  const selectDevice = useCallback((kind: keyof SelectedDevices, deviceId: string) => {
+    if (kind === 'audioOutput') {
+      setSelectedDevices(prev => ({ ...prev, audioOutput: deviceId }));
+      log.debug(`Audio output set to: ${deviceId || 'default'}`);
+    } else {
+      switchInputDevice(kind === 'videoInput' ? 'video' : 'audio', deviceId);
+    }
+  }, [switchInputDevice, log]);
+
+  useEffect(() => {
+    if (showSettings) {
+      refreshDevices();
     }
-  }, [localCameraStream, addDebugInfo, socket, roomId, closeScreenShareWindow]);
+  }, [showSettings, refreshDevices]);
+
+  // ヘッドセットの抜き差しなどデバイスの変化に追従
+  useEffect(() => {
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices || !localStream) return;
+
+    const handleDeviceChange = async () => {
+      log.debug('Media devices changed');
+      const deviceList = await refreshDevices();
+
+      const needsSwitch = (track: MediaStreamTrack | undefined, kind: MediaDeviceKind, selectedId: string) => {
+        if (!track) return false;
+        if (track.readyState === 'ended') return true;
+        const candidates = deviceList.filter(device => device.kind === kind);
+        const { deviceId, groupId } = track.getSettings();
+        // 使用中のデバイスが取り外された
+        if (!candidates.some(device => device.deviceId === deviceId)) return true;
+        // システムの既定に追従している場合は、既定のデバイスが変わったら切り替える
+        return !selectedId && candidates.length > 0 && candidates[0].groupId !== groupId;
+      };
+
+      if (needsSwitch(localStream.getAudioTracks()[0], 'audioinput', selectedDevices.audioInput)) {
+        const stillAvailable = deviceList.some(device => device.deviceId === selectedDevices.audioInput);
+        switchInputDevice('audio', stillAvailable ? selectedDevices.audioInput : '');
+      }
+      if (needsSwitch(localStream.getVideoTracks()[0], 'videoinput', selectedDevices.videoInput)) {
+        const stillAvailable = deviceList.some(device => device.deviceId === selectedDevices.videoInput);
+        switchInputDevice('video', stillAvailable ? selectedDevices.videoInput : '');
+      }
+      if (selectedDevices.audioOutput &&
+          !deviceList.some(device => device.kind === 'audiooutput' && device.deviceId === selectedDevices.audioOutput)) {
+        log.debug('Selected audio output removed, falling back to default');
+        setSelectedDevices(prev => ({ ...prev, audioOutput: '' }));
+      }
+    };
+
+    mediaDevices.addEventListener('devicechange', handleDeviceChange);
+    return () => {
+      mediaDevices.removeEventListener('devicechange', handleDeviceChange);
+    };
+  }, [localStream, selectedDevices, refreshDevices, switchInputDevice, log]);
+
+  const activeSpeaker = useActiveSpeaker(localStream, isAudioOn, peerConnections);
+
+  useEffect(() => {
+    if (activeSpeaker.id && activeSpeaker.id !== LOCAL_SPEAKER_ID) {
+      setStageUserId(activeSpeaker.id);
+    }
+  }, [activeSpeaker.id]);
+
+  // 通話品質の要約を定期的にサーバーへ送り、メトリクスとして集計してもらう
+  useEffect(() => {
+    if (!socket || !selfUserId) return;
+    const lossCounters = new Map<string, LossCounters>();
+
+    const interval = setInterval(async () => {
+      const samples: CallQualitySample[] = [];
+      const activePeers = Array.from(peerConnections.current.entries())
+        .filter(([, pc]) => pc.connectionState === 'connected');
+      for (const [peerId, pc] of activePeers) {
+        try {
+          const { sample, counters } = await sampleCallQuality(pc, lossCounters.get(peerId));
+          lossCounters.set(peerId, counters);
+          samples.push(sample);
+        } catch (error) {
+          log.warn('Failed to read stats', { peerId, error });
+        }
+      }
+      // 退出した相手のカウンタは捨てる
+      lossCounters.forEach((_, peerId) => {
+        if (!peerConnections.current.has(peerId)) lossCounters.delete(peerId);
+      });
+      if (samples.length > 0 && socket.connected) {
+        socket.emit('call-quality-report', { roomId, samples });
+      }
+    }, CALL_QUALITY_REPORT_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [socket, roomId, selfUserId, log]);
+
+  const sendChatMessage = useCallback((text: string, targetUserId?: string) => {
+    if (socket) {
+      socket.emit('chat-message', {
+        roomId,
+        text,
+        targetUserId
+      });
+    }
+  }, [socket, roomId]);
+
+  const downloadDiagnosticsBundle = useCallback(() => {
+    const bundle = diagnostics.build({
+      roomId,
+      selfUserId,
+      userName,
+      role,
+      connectionStatus,
+      participants: Array.from(participants.values()).map(({ userId, userName }) => ({ userId, userName })),
+      peerConnections: peerConnections.current,
+      localStream,
+      devices,
+      selectedDevices,
+      iceConfig: iceConfigRef.current,
+      forceRelay
+    });
+    downloadDiagnostics(bundle);
+    log.info('Diagnostics downloaded', { peers: bundle.peers.length, logs: bundle.logs.length });
+  }, [diagnostics, roomId, selfUserId, userName, role, connectionStatus, participants, localStream, devices, selectedDevices, forceRelay, log]);
 
   const copyRoomId = useCallback(async () => {
     try {
       await navigator.clipboard.writeText(roomId);
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
-      addDebugInfo('📋 Room ID copied to clipboard');
+      log.debug('Room ID copied to clipboard');
     } catch (error) {
-      addDebugInfo(`❌ Failed to copy room ID: ${error}`);
+      log.error('Failed to copy room ID', { error });
+    }
+  }, [roomId, log]);
+
+  // パスコードは明示的に選んだときだけURLに含める
+  const shareUrl = includePasscodeInUrl && joinPasscode
+    ? `${window.location.origin}?room=${roomId}&passcode=${encodeURIComponent(joinPasscode)}`
+    : `${window.location.origin}?room=${roomId}`;
+
+  const toggleRoomLock = useCallback(() => {
+    if (!socket || !roomInfo) return;
+    log.debug(`Requesting room ${roomInfo.locked ? 'unlock' : 'lock'}`);
+    socket.emit('lock-room', { roomId, locked: !roomInfo.locked });
+  }, [socket, roomInfo, roomId, log]);
+
+  const participantName = useCallback((targetUserId: string) => {
+    return participants.get(targetUserId)?.userName ?? targetUserId;
+  }, [participants]);
+
+  const moderation: ModerationActions = useMemo(() => ({
+    onRequestMediaOff: (targetUserId: string, kind: MediaKind) => {
+      socket?.emit('request-media-off', { roomId, targetUserId, kind });
+    },
+    onSetRole: (targetUserId: string, newRole: ParticipantRole) => {
+      socket?.emit('set-role', { roomId, targetUserId, role: newRole });
+    },
+    onTransferHost: (targetUserId: string) => {
+      if (window.confirm(`${participantName(targetUserId)}さんにホストを譲りますか？`)) {
+        socket?.emit('transfer-host', { roomId, targetUserId });
+      }
+    },
+    onRemove: (targetUserId: string, ban: boolean) => {
+      const message = ban
+        ? `${participantName(targetUserId)}さんを退出させ、このルームへの再参加を禁止しますか？`
+        : `${participantName(targetUserId)}さんを退出させますか？`;
+      if (window.confirm(message)) {
+        socket?.emit('remove-participant', { roomId, targetUserId, ban });
+      }
+    }
+  }), [socket, roomId, participantName]);
+
+  const respondToKnock = useCallback((waitingIds: string[], admit: boolean) => {
+    log.debug(`${admit ? 'Admitting' : 'Denying'} ${waitingIds.length} waiting`);
+    socket?.emit('respond-to-knock', { roomId, waitingIds, admit });
+  }, [socket, roomId, log]);
+
+  const toggleWaitingRoom = useCallback(() => {
+    if (!socket || !roomInfo) return;
+    log.debug(`Turning waiting room ${roomInfo.waitingRoom ? 'off' : 'on'}`);
+    socket.emit('set-waiting-room', { roomId, enabled: !roomInfo.waitingRoom });
+  }, [socket, roomInfo, roomId, log]);
+
+  const endMeetingForAll = useCallback(() => {
+    if (window.confirm('全員の会議を終了しますか？')) {
+      log.info('Ending meeting for everyone');
+      socket?.emit('end-meeting', { roomId });
+    }
+  }, [socket, roomId, log]);
+
+  const retryJoin = (nextPasscode?: string) => {
+    if (nextPasscode !== undefined) {
+      joinPasscodeRef.current = nextPasscode;
+      setJoinPasscode(nextPasscode);
+      setPasscodeDraft('');
     }
-  }, [roomId, addDebugInfo]);
+    setJoinError(null);
+    socketRef.current?.connect();
+  };
 
   const shareRoom = useCallback(async () => {
-    const shareUrl = `${window.location.origin}?room=${roomId}`;
     const shareData = {
       title: 'VideoMeet - Join my video call',
       text: `Join my video meeting on VideoMeet. Room ID: ${roomId}`,
@@ -837,21 +1676,43 @@ export const VideoCall: React.FC<VideoCallProps> = ({ roomId, userName, onLeaveC
     try {
       if (navigator.share) {
         await navigator.share(shareData);
-        addDebugInfo('📤 Room shared via native share');
+        log.debug('Room shared via native share');
       } else {
         await navigator.clipboard.writeText(shareUrl);
         setCopied(true);
         setTimeout(() => setCopied(false), 2000);
-        addDebugInfo('📋 Room URL copied to clipboard');
+        log.debug('Room URL copied to clipboard');
       }
     } catch (error) {
-      addDebugInfo(`❌ Error sharing: ${error}`);
+      log.error('Error sharing', { error });
     }
-  }, [roomId, addDebugInfo]);
+  }, [roomId, shareUrl, log]);
+
+  // チャットと参加者一覧は同じ場所に表示するので、片方を開くともう片方は閉じる
+  const toggleChatPanel = () => {
+    setShowParticipants(false);
+    setShowChat(!showChat);
+  };
+
+  const toggleParticipantsPanel = () => {
+    setShowChat(false);
+    setShowParticipants(!showParticipants);
+  };
 
   const participantsList = Array.from(participants.values());
   const totalParticipants = participantsList.length + 1;
 
+  // 話者が退出していれば最初の参加者を、誰もいなければ自分を大きく映す
+  const stageId = stageUserId && participants.has(stageUserId)
+    ? stageUserId
+    : participantsList[0]?.userId ?? LOCAL_SPEAKER_ID;
+  const getLayoutStyle = (tileId: string): React.CSSProperties | undefined => {
+    if (layout === 'gallery') return undefined;
+    if (tileId !== stageId) return FILMSTRIP_STYLE;
+    return totalParticipants === 1 ? { ...STAGE_STYLE, height: '100%' } : STAGE_STYLE;
+  };
+  const isTileSpeaking = (tileId: string) => activeSpeaker.isSpeaking && activeSpeaker.id === tileId;
+
   const getGridLayout = (count: number) => {
     if (count === 1) return 'grid-cols-1';
     if (count === 2) return 'grid-cols-2';
@@ -861,6 +1722,97 @@ export const VideoCall: React.FC<VideoCallProps> = ({ roomId, userName, onLeaveC
     return 'grid-cols-4 grid-rows-3';
   };
 
+  if (exitNotice) {
+    return (
+      <div className="min-h-screen bg-gray-900 flex items-center justify-center">
+        <div className="text-center text-white max-w-md mx-auto p-6">
+          <div className="w-16 h-16 bg-gray-600 rounded-full flex items-center justify-center mx-auto mb-4">
+            <PhoneOff size={32} className="text-white" />
+          </div>
+          <h2 className="text-xl mb-4">{exitNotice.title}</h2>
+          <p className="text-gray-400 mb-6">{exitNotice.description}</p>
+          <button
+            onClick={onLeaveCall}
+            className="w-full px-6 py-2 bg-gray-600 hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            ホームに戻る
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (joinError) {
+    const details = JOIN_ERROR_DETAILS[joinError.code];
+    const needsPasscode = joinError.code === 'passcode-required' || joinError.code === 'invalid-passcode';
+    return (
+      <div className="min-h-screen bg-gray-900 flex items-center justify-center">
+        <div className="text-center text-white max-w-md mx-auto p-6">
+          <div className="w-16 h-16 bg-red-500 rounded-full flex items-center justify-center mx-auto mb-4">
+            <Users size={32} className="text-white" />
+          </div>
+          <h2 className="text-xl mb-4">{details.title}</h2>
+          <p className="text-gray-400 mb-2">{details.description}</p>
+          <p className="text-gray-500 text-sm mb-6">ルーム: {roomId}</p>
+          <div className="space-y-3">
+            {needsPasscode ? (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  retryJoin(passcodeDraft.trim());
+                }}
+                className="space-y-3"
+              >
+                <input
+                  type="password"
+                  value={passcodeDraft}
+                  onChange={(e) => setPasscodeDraft(e.target.value)}
+                  placeholder="パスコード"
+                  maxLength={LIMITS.PASSCODE_MAX_LENGTH}
+                  autoFocus
+                  className="w-full bg-gray-700 text-white px-3 py-2 rounded border border-gray-600 focus:outline-none focus:border-blue-500"
+                />
+                <button
+                  type="submit"
+                  disabled={!passcodeDraft.trim()}
+                  className="w-full px-6 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed rounded-lg transition-colors flex items-center justify-center"
+                >
+                  <KeyRound size={16} className="mr-2" />
+                  参加する
+                </button>
+              </form>
+            ) : details.canRetry && (
+              <button
+                onClick={() => retryJoin()}
+                className="w-full px-6 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors"
+              >
+                もう一度試す
+              </button>
+            )}
+            <button
+              onClick={onLeaveCall}
+              className="w-full px-6 py-2 bg-gray-600 hover:bg-gray-700 rounded-lg transition-colors"
+            >
+              ホームに戻る
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (isWaitingForHost) {
+    return (
+      <WaitingRoomScreen
+        roomId={roomId}
+        userName={userName}
+        stream={localStream}
+        isVideoOn={isVideoOn}
+        onLeave={onLeaveCall}
+      />
+    );
+  }
+
   if (error && reconnectAttempts > 10) {
     return (
       <div className="min-h-screen bg-gray-900 flex items-center justify-center">
@@ -912,43 +1864,117 @@ export const VideoCall: React.FC<VideoCallProps> = ({ roomId, userName, onLeaveC
             onClick={() => setShowRoomInfo(!showRoomInfo)}
             className="flex items-center space-x-2 text-white hover:text-blue-400 transition-colors"
           >
-            <h1 className="text-lg font-semibold">ルーム: {roomId}</h1>
+            <h1 className="text-lg font-semibold">
+              {roomInfo?.title ? `${roomInfo.title} (${roomId})` : `ルーム: ${roomId}`}
+            </h1>
             <Share2 size={18} />
           </button>
-          <div className="flex items-center space-x-2 text-gray-400">
+          <button
+            onClick={toggleParticipantsPanel}
+            className="flex items-center space-x-2 text-gray-400 hover:text-white transition-colors"
+            title="参加者一覧"
+          >
             <Users size={18} />
-            <span>{totalParticipants}人</span>
-          </div>
+            <span>{roomInfo ? `${totalParticipants}/${roomInfo.maxParticipants}人` : `${totalParticipants}人`}</span>
+          </button>
+          {role === 'host' && (
+            <div className="text-xs text-yellow-300 bg-yellow-900 px-2 py-1 rounded">
+              ホスト
+            </div>
+          )}
+          {role === 'host' && roomInfo ? (
+            <button
+              onClick={toggleRoomLock}
+              className={`flex items-center space-x-1 text-xs px-2 py-1 rounded transition-colors ${
+                roomInfo.locked
+                  ? 'text-red-200 bg-red-900 hover:bg-red-800'
+                  : 'text-gray-300 bg-gray-700 hover:bg-gray-600'
+              }`}
+              title={roomInfo.locked ? 'ルームのロックを解除' : 'ルームをロックして新しい参加を締め切る'}
+            >
+              {roomInfo.locked ? <Lock size={14} /> : <Unlock size={14} />}
+              <span>{roomInfo.locked ? 'ロック中' : 'ロック'}</span>
+            </button>
+          ) : roomInfo?.locked && (
+            <div className="flex items-center space-x-1 text-xs text-red-200 bg-red-900 px-2 py-1 rounded">
+              <Lock size={14} />
+              <span>ロック中</span>
+            </div>
+          )}
+          {role === 'host' && roomInfo && (
+            <button
+              onClick={toggleWaitingRoom}
+              className={`flex items-center space-x-1 text-xs px-2 py-1 rounded transition-colors ${
+                roomInfo.waitingRoom
+                  ? 'text-blue-200 bg-blue-900 hover:bg-blue-800'
+                  : 'text-gray-300 bg-gray-700 hover:bg-gray-600'
+              }`}
+              title={roomInfo.waitingRoom ? '待機室をオフにする（待っている人は全員参加します）' : '待機室をオンにして参加を承認制にする'}
+            >
+              {roomInfo.waitingRoom ? <DoorClosed size={14} /> : <DoorOpen size={14} />}
+              <span>{roomInfo.waitingRoom ? '待機室: オン' : '待機室: オフ'}</span>
+            </button>
+          )}
         </div>
         <div className="flex items-center space-x-2">
           <div className={`w-3 h-3 rounded-full ${
             connectionStatus === 'connected' ? 'bg-green-500' : 
-            connectionStatus === 'connecting' ? 'bg-yellow-500' : 'bg-red-500'
+            connectionStatus === 'failed' ? 'bg-red-500' : 'bg-yellow-500'
           }`} />
           <span className="text-gray-400 text-sm">
             {connectionStatus === 'connected' ? '接続済み' : 
+             connectionStatus === 'reconnecting' ? '再接続中' :
              connectionStatus === 'connecting' ? '接続中' : '接続失敗'}
           </span>
           <div className="text-xs text-green-400 bg-green-900 px-2 py-1 rounded">
             高品質モード (1080p)
           </div>
+          {forceRelay && (
+            <div className="text-xs text-purple-300 bg-purple-900 px-2 py-1 rounded" title="すべての映像・音声を TURN サーバー経由で送受信しています">
+              リレー接続
+            </div>
+          )}
           <button
-            onClick={() => {
-              console.log('=== DEBUG INFO ===');
-              debugInfo.forEach(info => console.log(info));
-              console.log('=== PEER CONNECTIONS ===');
-              peerConnections.current.forEach((pc, userId) => {
-                console.log(`${userId}: connection=${pc.connectionState}, ice=${pc.iceConnectionState}`);
-              });
-            }}
-            className="text-xs text-blue-400 bg-blue-900 px-2 py-1 rounded hover:bg-blue-800"
-            title="デバッグ情報をコンソールに出力"
+            onClick={downloadDiagnosticsBundle}
+            className="text-xs text-blue-400 bg-blue-900 px-2 py-1 rounded hover:bg-blue-800 flex items-center"
+            title="問い合わせに添付する診断情報をダウンロード（名前は匿名化されます）"
           >
-            DEBUG
+            <Download size={12} className="mr-1" />
+            診断情報
           </button>
         </div>
       </div>
 
+      {/* Waiting room knocks (hosts only) */}
+      {role === 'host' && (
+        <KnockRequests entries={waitingList} onRespond={respondToKnock} />
+      )}
+
+      {/* Signaling reconnect; peer connections and the call UI stay up meanwhile */}
+      {connectionStatus === 'reconnecting' && (
+        <div className="bg-yellow-900 text-yellow-200 text-sm px-4 py-2 flex items-center space-x-2">
+          <div className="w-4 h-4 border-2 border-yellow-400 border-t-transparent rounded-full animate-spin"></div>
+          <span>
+            サーバーとの接続が切れました。再接続しています…
+            {reconnectAttempts > 0 && ` (${reconnectAttempts}/15)`}
+          </span>
+        </div>
+      )}
+
+      {/* Degraded media notice */}
+      {mediaNotice && (
+        <div className="bg-yellow-900 text-yellow-200 text-sm px-4 py-2 flex justify-between items-center">
+          <span>{mediaNotice}</span>
+          <button
+            onClick={() => setMediaNotice(null)}
+            className="p-1 text-yellow-300 hover:text-white transition-colors"
+            title="閉じる"
+          >
+            <X size={16} />
+          </button>
+        </div>
+      )}
+
       {/* Room Info Panel */}
       {showRoomInfo && (
         <div className="bg-gray-800 border-t border-gray-700 p-4">
@@ -978,7 +2004,7 @@ export const VideoCall: React.FC<VideoCallProps> = ({ roomId, userName, onLeaveC
                 <div className="flex items-center space-x-2">
                   <input
                     type="text"
-                    value={`${window.location.origin}?room=${roomId}`}
+                    value={shareUrl}
                     readOnly
                     className="flex-1 bg-gray-600 text-white px-3 py-2 rounded border border-gray-500 focus:outline-none text-sm"
                   />
@@ -990,6 +2016,16 @@ export const VideoCall: React.FC<VideoCallProps> = ({ roomId, userName, onLeaveC
                     <span className="text-sm">共有</span>
                   </button>
                 </div>
+                {joinPasscode && (
+                  <label className="mt-2 flex items-center space-x-2 text-gray-300 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={includePasscodeInUrl}
+                      onChange={(e) => setIncludePasscodeInUrl(e.target.checked)}
+                    />
+                    <span>URLにパスコードを含める</span>
+                  </label>
+                )}
               </div>
             </div>
             <div className="mt-3 p-2 bg-green-900 rounded text-green-200 text-xs">
@@ -1005,6 +2041,15 @@ export const VideoCall: React.FC<VideoCallProps> = ({ roomId, userName, onLeaveC
         </div>
       )}
 
+      {showSettings && (
+        <DeviceSettings
+          devices={devices}
+          selectedDevices={selectedDevices}
+          onSelectDevice={selectDevice}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+
       {/* Screen Share Window - z-indexを高く設定してUI操作を可能にする */}
       {screenShareWindow && (
         <ScreenShareModal
@@ -1014,30 +2059,65 @@ export const VideoCall: React.FC<VideoCallProps> = ({ roomId, userName, onLeaveC
         />
       )}
 
-      {/* Video Grid */}
-      <div className="flex-1 p-1">
-        <div className={`grid gap-1 h-full ${getGridLayout(totalParticipants)}`}>
-          <ResizableVideo
-            videoRef={localVideoRef}
-            userName={userName}
-            isLocal={true}
-            isVideoOn={isVideoOn}
-            isAudioOn={isAudioOn}
-            isScreenSharing={isScreenSharing}
-            participantId="local"
-            videoSizes={videoSizes}
-            updateVideoSize={updateVideoSize}
-          />
-
-          {participantsList.map((participant) => (
-            <ResizableRemoteVideo
-              key={participant.userId}
-              participant={participant}
+      {/* Video Grid + Chat */}
+      <div className="flex-1 flex min-h-0">
+        <div className="flex-1 p-1">
+          {/* レイアウトを切り替えてもタイルを作り直さないよう、どちらも同じコンテナに並べる */}
+          <div className={layout === 'speaker'
+            ? 'flex flex-wrap content-start gap-1 h-full overflow-y-auto'
+            : `grid gap-1 h-full ${getGridLayout(totalParticipants)}`}
+          >
+            <ResizableVideo
+              videoRef={localVideoRef}
+              stream={isScreenSharing && localCameraStream ? localCameraStream : localStream}
+              userName={userName}
+              isLocal={true}
+              isVideoOn={isVideoOn}
+              isAudioOn={isAudioOn}
+              isScreenSharing={isScreenSharing}
+              participantId={LOCAL_SPEAKER_ID}
               videoSizes={videoSizes}
               updateVideoSize={updateVideoSize}
+              isSpeaking={isTileSpeaking(LOCAL_SPEAKER_ID)}
+              layoutStyle={getLayoutStyle(LOCAL_SPEAKER_ID)}
             />
-          ))}
+
+            {participantsList.map((participant) => (
+              <ResizableRemoteVideo
+                key={participant.userId}
+                participant={participant}
+                audioOutputDeviceId={selectedDevices.audioOutput}
+                stats={peerStats.get(participant.userId)}
+                moderation={role === 'host' ? moderation : undefined}
+                videoSizes={videoSizes}
+                updateVideoSize={updateVideoSize}
+                isSpeaking={isTileSpeaking(participant.userId)}
+                layoutStyle={getLayoutStyle(participant.userId)}
+              />
+            ))}
+          </div>
         </div>
+
+        {showChat && (
+          <ChatPanel
+            messages={chatMessages}
+            recipients={participantsList.map(p => ({ userId: p.userId, userName: p.userName }))}
+            selfUserId={selfUserId}
+            onSendMessage={sendChatMessage}
+            onClose={() => setShowChat(false)}
+          />
+        )}
+
+        {showParticipants && (
+          <ParticipantsPanel
+            self={{ userId: selfUserId, userName, role, isAudioOn, isVideoOn }}
+            participants={participantsList}
+            isHost={role === 'host'}
+            moderation={moderation}
+            onEndMeeting={endMeetingForAll}
+            onClose={() => setShowParticipants(false)}
+          />
+        )}
       </div>
 
       {/* Controls */}
@@ -1079,6 +2159,51 @@ export const VideoCall: React.FC<VideoCallProps> = ({ roomId, userName, onLeaveC
             <Monitor size={20} />
           </button>
 
+          <button
+            onClick={toggleChatPanel}
+            className={`relative w-12 h-12 rounded-full flex items-center justify-center transition-colors ${
+              showChat
+                ? 'bg-blue-500 hover:bg-blue-600 text-white'
+                : 'bg-gray-700 hover:bg-gray-600 text-white'
+            }`}
+            title={showChat ? 'チャットを閉じる' : 'チャットを開く'}
+          >
+            <MessageSquare size={20} />
+            {unreadCount > 0 && (
+              <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 bg-red-500 rounded-full text-xs font-semibold flex items-center justify-center">
+                {unreadCount > 99 ? '99+' : unreadCount}
+              </span>
+            )}
+          </button>
+
+          <button
+            onClick={toggleParticipantsPanel}
+            className={`w-12 h-12 rounded-full flex items-center justify-center transition-colors ${
+              showParticipants
+                ? 'bg-blue-500 hover:bg-blue-600 text-white'
+                : 'bg-gray-700 hover:bg-gray-600 text-white'
+            }`}
+            title={showParticipants ? '参加者一覧を閉じる' : '参加者一覧を開く'}
+          >
+            <Users size={20} />
+          </button>
+
+          <button
+            onClick={() => setLayout(layout === 'gallery' ? 'speaker' : 'gallery')}
+            className="w-12 h-12 rounded-full bg-gray-700 hover:bg-gray-600 flex items-center justify-center text-white transition-colors"
+            title={layout === 'gallery' ? 'スピーカービューに切り替え' : 'ギャラリービューに切り替え'}
+          >
+            {layout === 'gallery' ? <Presentation size={20} /> : <LayoutGrid size={20} />}
+          </button>
+
+          <button
+            onClick={() => setShowSettings(true)}
+            className="w-12 h-12 rounded-full bg-gray-700 hover:bg-gray-600 flex items-center justify-center text-white transition-colors"
+            title="デバイス設定"
+          >
+            <Settings size={20} />
+          </button>
+
           <button
             onClick={() => setShowRoomInfo(!showRoomInfo)}
             className="w-12 h-12 rounded-full bg-gray-700 hover:bg-gray-600 flex items-center justify-center text-white transition-colors"
@@ -1101,8 +2226,22 @@ export const VideoCall: React.FC<VideoCallProps> = ({ roomId, userName, onLeaveC
 };
 
 // リサイズ可能なビデオコンポーネント
+const getResizableStyle = (size: VideoSize): React.CSSProperties => ({
+  width: `${size.width}px`,
+  height: `${size.height}px`,
+  minWidth: '200px',
+  minHeight: '150px',
+  maxWidth: '1200px',
+  maxHeight: '900px'
+});
+
+// 話している人のタイルは枠を緑にする
+const getTileBorder = (isSpeaking?: boolean) =>
+  isSpeaking ? 'border-green-400' : 'border-gray-600 hover:border-blue-500';
+
 interface ResizableVideoProps {
   videoRef: React.RefObject<HTMLVideoElement>;
+  stream: MediaStream | null;
   userName: string;
   isLocal: boolean;
   isVideoOn: boolean;
@@ -1111,10 +2250,14 @@ interface ResizableVideoProps {
   participantId: string;
   videoSizes: Map<string, VideoSize>;
   updateVideoSize: (participantId: string, width: number, height: number) => void;
+  isSpeaking?: boolean;
+  // スピーカービューでの配置。指定がなければギャラリー表示として自由にサイズを変えられる
+  layoutStyle?: React.CSSProperties;
 }
 
 const ResizableVideo: React.FC<ResizableVideoProps> = ({
   videoRef,
+  stream,
   userName,
   isLocal,
   isVideoOn,
@@ -1122,7 +2265,9 @@ const ResizableVideo: React.FC<ResizableVideoProps> = ({
   isScreenSharing,
   participantId,
   videoSizes,
-  updateVideoSize
+  updateVideoSize,
+  isSpeaking,
+  layoutStyle
 }) => {
   const [isResizing, setIsResizing] = useState(false);
   const [startPos, setStartPos] = useState({ x: 0, y: 0 });
@@ -1131,6 +2276,13 @@ const ResizableVideo: React.FC<ResizableVideoProps> = ({
 
   const currentSize = videoSizes.get(participantId) || { width: 300, height: 225 };
 
+  // 通話画面は待機室や接続中の画面から切り替わるたびに作り直されるので、video 要素ごとにストリームをつなぐ
+  useEffect(() => {
+    if (videoRef.current && videoRef.current.srcObject !== stream) {
+      videoRef.current.srcObject = stream;
+    }
+  }, [videoRef, stream]);
+
   const handleMouseDown = (e: React.MouseEvent) => {
     e.preventDefault();
     setIsResizing(true);
@@ -1168,15 +2320,8 @@ const ResizableVideo: React.FC<ResizableVideoProps> = ({
   return (
     <div
       ref={containerRef}
-      className="relative bg-gray-800 rounded-lg overflow-hidden border-2 border-gray-600 hover:border-blue-500 transition-colors"
-      style={{
-        width: `${currentSize.width}px`,
-        height: `${currentSize.height}px`,
-        minWidth: '200px',
-        minHeight: '150px',
-        maxWidth: '1200px',
-        maxHeight: '900px'
-      }}
+      className={`relative bg-gray-800 rounded-lg overflow-hidden border-2 transition-colors ${getTileBorder(isSpeaking)}`}
+      style={layoutStyle ?? getResizableStyle(currentSize)}
     >
       <video
         ref={videoRef}
@@ -1213,48 +2358,79 @@ const ResizableVideo: React.FC<ResizableVideoProps> = ({
         )}
       </div>
 
-      <div
-        className="absolute bottom-0 right-0 w-4 h-4 bg-blue-500 cursor-se-resize opacity-50 hover:opacity-100 transition-opacity"
-        onMouseDown={handleMouseDown}
-        title="ドラッグしてサイズ変更"
-      >
-        <div className="w-full h-full flex items-end justify-end">
-          <div className="w-2 h-2 bg-white rounded-tl-sm"></div>
-        </div>
-      </div>
+      {/* サイズ変更はギャラリー表示のときだけ */}
+      {!layoutStyle && (
+        <>
+          <div
+            className="absolute bottom-0 right-0 w-4 h-4 bg-blue-500 cursor-se-resize opacity-50 hover:opacity-100 transition-opacity"
+            onMouseDown={handleMouseDown}
+            title="ドラッグしてサイズ変更"
+          >
+            <div className="w-full h-full flex items-end justify-end">
+              <div className="w-2 h-2 bg-white rounded-tl-sm"></div>
+            </div>
+          </div>
 
-      <div className="absolute top-2 left-2 bg-black bg-opacity-60 px-1 py-0.5 rounded text-white text-xs">
-        {currentSize.width}×{currentSize.height}
-      </div>
+          <div className="absolute top-2 left-2 bg-black bg-opacity-60 px-1 py-0.5 rounded text-white text-xs">
+            {currentSize.width}×{currentSize.height}
+          </div>
+        </>
+      )}
     </div>
   );
 };
 
 interface ResizableRemoteVideoProps {
   participant: Participant;
+  audioOutputDeviceId: string;
+  // 接続が確立していない間は undefined
+  stats?: PeerStats;
+  // 自分がホストのときだけ渡される
+  moderation?: ModerationActions;
   videoSizes: Map<string, VideoSize>;
   updateVideoSize: (participantId: string, width: number, height: number) => void;
+  isSpeaking?: boolean;
+  // スピーカービューでの配置。指定がなければギャラリー表示として自由にサイズを変えられる
+  layoutStyle?: React.CSSProperties;
 }
 
 const ResizableRemoteVideo: React.FC<ResizableRemoteVideoProps> = ({
   participant,
+  audioOutputDeviceId,
+  stats,
+  moderation,
   videoSizes,
-  updateVideoSize
+  updateVideoSize,
+  isSpeaking,
+  layoutStyle
 }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
+  const [showStats, setShowStats] = useState(false);
   const [isResizing, setIsResizing] = useState(false);
   const [startPos, setStartPos] = useState({ x: 0, y: 0 });
   const [startSize, setStartSize] = useState({ width: 0, height: 0 });
 
   const currentSize = videoSizes.get(participant.userId) || { width: 300, height: 225 };
+  // カメラなしで参加した人の画面共有も映すため、isVideoOn だけでなく画面共有中かどうかも見る
+  const hasLiveVideo = participant.stream?.getVideoTracks().some(track => track.readyState === 'live') ?? false;
+  const showsVideo = hasLiveVideo && (participant.isScreenSharing || participant.isVideoOn !== false);
 
   useEffect(() => {
     if (videoRef.current && participant.stream) {
       videoRef.current.srcObject = participant.stream;
-      console.log('🔍 DEBUG: Set video stream for participant:', participant.userId);
     }
   }, [participant.stream, participant.userId]);
 
+  // 選択されたスピーカーに出力を切り替え
+  useEffect(() => {
+    const videoElement = videoRef.current;
+    if (videoElement && 'setSinkId' in videoElement) {
+      videoElement.setSinkId(audioOutputDeviceId).catch(error => {
+        logger.warn('Failed to set audio output device', { peerId: participant.userId, error });
+      });
+    }
+  }, [audioOutputDeviceId, participant.stream, participant.userId]);
+
   const handleMouseDown = (e: React.MouseEvent) => {
     e.preventDefault();
     setIsResizing(true);
@@ -1291,25 +2467,21 @@ const ResizableRemoteVideo: React.FC<ResizableRemoteVideoProps> = ({
 
   return (
     <div
-      className="relative bg-gray-800 rounded-lg overflow-hidden border-2 border-gray-600 hover:border-blue-500 transition-colors"
-      style={{
-        width: `${currentSize.width}px`,
-        height: `${currentSize.height}px`,
-        minWidth: '200px',
-        minHeight: '150px',
-        maxWidth: '1200px',
-        maxHeight: '900px'
-      }}
+      className={`group relative bg-gray-800 rounded-lg overflow-hidden border-2 transition-colors ${getTileBorder(isSpeaking)}`}
+      style={layoutStyle ?? getResizableStyle(currentSize)}
     >
-      {participant.stream && participant.isVideoOn !== false ? (
+      {/* 音声を再生し続けるため、映像がなくても video 要素は残す */}
+      {participant.stream && (
         <video
           ref={videoRef}
           autoPlay
           playsInline
           className="w-full h-full object-cover"
         />
-      ) : (
-        <div className="w-full h-full bg-gray-700 flex items-center justify-center">
+      )}
+
+      {!showsVideo && (
+        <div className="absolute inset-0 bg-gray-700 flex items-center justify-center">
           <div className="w-16 h-16 bg-gray-600 rounded-full flex items-center justify-center">
             <span className="text-white text-lg font-semibold">
               {participant.userName.charAt(0).toUpperCase()}
@@ -1318,11 +2490,46 @@ const ResizableRemoteVideo: React.FC<ResizableRemoteVideoProps> = ({
         </div>
       )}
       
-      <div className="absolute bottom-2 left-2 bg-black bg-opacity-60 px-2 py-1 rounded text-white text-sm">
+      <div className="absolute bottom-2 left-2 bg-black bg-opacity-60 px-2 py-1 rounded text-white text-sm flex items-center">
+        {participant.role === 'host' && <Crown size={12} className="text-yellow-300 mr-1" />}
         {participant.userName}
       </div>
+
+      {moderation && (
+        <div className="absolute top-2 left-1/2 -translate-x-1/2 flex space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
+          <button
+            onClick={() => moderation.onRequestMediaOff(participant.userId, 'audio')}
+            disabled={participant.isAudioOn === false}
+            className="w-7 h-7 bg-black bg-opacity-60 hover:bg-opacity-80 disabled:opacity-40 rounded-full flex items-center justify-center text-white"
+            title="ミュートする"
+          >
+            <MicOff size={14} />
+          </button>
+          <button
+            onClick={() => moderation.onRequestMediaOff(participant.userId, 'video')}
+            disabled={participant.isVideoOn === false}
+            className="w-7 h-7 bg-black bg-opacity-60 hover:bg-opacity-80 disabled:opacity-40 rounded-full flex items-center justify-center text-white"
+            title="カメラをオフにする"
+          >
+            <VideoOff size={14} />
+          </button>
+          <button
+            onClick={() => moderation.onRemove(participant.userId, false)}
+            className="w-7 h-7 bg-black bg-opacity-60 hover:bg-red-600 rounded-full flex items-center justify-center text-white"
+            title="退出させる"
+          >
+            <UserMinus size={14} />
+          </button>
+        </div>
+      )}
       
       <div className="absolute top-2 right-2 flex space-x-1">
+        <div
+          onMouseEnter={() => setShowStats(true)}
+          onMouseLeave={() => setShowStats(false)}
+        >
+          <SignalBars level={getQualityLevel(stats)} />
+        </div>
         {participant.isAudioOn === false && (
           <div className="w-6 h-6 bg-red-500 rounded-full flex items-center justify-center">
             <MicOff size={12} className="text-white" />
@@ -1335,19 +2542,94 @@ const ResizableRemoteVideo: React.FC<ResizableRemoteVideoProps> = ({
         )}
       </div>
 
-      <div
-        className="absolute bottom-0 right-0 w-4 h-4 bg-blue-500 cursor-se-resize opacity-50 hover:opacity-100 transition-opacity"
-        onMouseDown={handleMouseDown}
-        title="ドラッグしてサイズ変更"
-      >
-        <div className="w-full h-full flex items-end justify-end">
-          <div className="w-2 h-2 bg-white rounded-tl-sm"></div>
+      {showStats && <PeerStatsOverlay stats={stats} />}
+
+      {participant.isReconnecting && (
+        <div className="absolute inset-0 bg-black bg-opacity-60 flex flex-col items-center justify-center">
+          <div className="w-8 h-8 border-4 border-yellow-400 border-t-transparent rounded-full animate-spin mb-2"></div>
+          <span className="text-yellow-200 text-sm">再接続中…</span>
         </div>
-      </div>
+      )}
 
-      <div className="absolute top-2 left-2 bg-black bg-opacity-60 px-1 py-0.5 rounded text-white text-xs">
-        {currentSize.width}×{currentSize.height}
-      </div>
+      {/* サイズ変更はギャラリー表示のときだけ */}
+      {!layoutStyle && (
+        <>
+          <div
+            className="absolute bottom-0 right-0 w-4 h-4 bg-blue-500 cursor-se-resize opacity-50 hover:opacity-100 transition-opacity"
+            onMouseDown={handleMouseDown}
+            title="ドラッグしてサイズ変更"
+          >
+            <div className="w-full h-full flex items-end justify-end">
+              <div className="w-2 h-2 bg-white rounded-tl-sm"></div>
+            </div>
+          </div>
+
+          <div className="absolute top-2 left-2 bg-black bg-opacity-60 px-1 py-0.5 rounded text-white text-xs">
+            {currentSize.width}×{currentSize.height}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+const SIGNAL_BAR_COLORS = ['bg-gray-500', 'bg-red-500', 'bg-orange-400', 'bg-yellow-300', 'bg-green-400'];
+const SIGNAL_LEVEL_LABELS = ['測定中', '悪い', 'やや悪い', '良好', '非常に良好'];
+
+// 接続品質を4本の電波アイコンで表示（0本は未測定）
+const SignalBars: React.FC<{ level: number }> = ({ level }) => (
+  <div
+    className="h-6 px-1.5 bg-black bg-opacity-60 rounded flex items-end space-x-0.5 pb-1 cursor-default"
+    title={`接続品質: ${SIGNAL_LEVEL_LABELS[level]}`}
+  >
+    {[1, 2, 3, 4].map(bar => (
+      <div
+        key={bar}
+        className={`w-1 rounded-sm ${bar <= level ? SIGNAL_BAR_COLORS[level] : 'bg-gray-500 bg-opacity-60'}`}
+        style={{ height: `${bar * 3 + 2}px` }}
+      />
+    ))}
+  </div>
+);
+
+const CANDIDATE_TYPE_LABELS: Record<string, string> = {
+  host: '直接（同一ネットワーク）',
+  srflx: '直接（STUN）',
+  prflx: '直接（STUN）',
+  relay: 'リレー（TURN）'
+};
+
+const formatMs = (seconds?: number) => seconds === undefined ? '-' : `${Math.round(seconds * 1000)} ms`;
+
+// 電波アイコンにマウスを乗せたときの詳細
+const PeerStatsOverlay: React.FC<{ stats?: PeerStats }> = ({ stats }) => {
+  const rows: [string, string][] = stats ? [
+    ['接続方式', stats.candidateType ? CANDIDATE_TYPE_LABELS[stats.candidateType] : '-'],
+    ['往復遅延', formatMs(stats.roundTripTime)],
+    ['ジッター', formatMs(stats.jitter)],
+    ['パケットロス', stats.packetLoss === undefined ? '-' : `${(stats.packetLoss * 100).toFixed(1)}%`],
+    ['送信', formatBitrate(stats.sendBitrate)],
+    ['受信', formatBitrate(stats.receiveBitrate)],
+    ['解像度', stats.frameWidth && stats.frameHeight ? `${stats.frameWidth}×${stats.frameHeight}` : '-'],
+    ['フレームレート', stats.framesPerSecond === undefined ? '-' : `${Math.round(stats.framesPerSecond)} fps`]
+  ] : [];
+
+  return (
+    <div className="absolute top-10 right-2 z-10 bg-black bg-opacity-80 rounded p-2 text-xs text-white pointer-events-none">
+      {rows.length === 0 ? (
+        <span className="text-gray-300">接続を測定中…</span>
+      ) : (
+        <table>
+          <tbody>
+            {rows.map(([label, value]) => (
+              <tr key={label}>
+                <td className="pr-3 text-gray-300">{label}</td>
+                <td className="text-right">{value}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
     </div>
   );
 };
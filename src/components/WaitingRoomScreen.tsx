@@ -0,0 +1,67 @@
+import React, { useEffect, useRef } from 'react';
+import { PhoneOff } from 'lucide-react';
+
+interface WaitingRoomScreenProps {
+  roomId: string;
+  userName: string;
+  stream: MediaStream | null;
+  isVideoOn: boolean;
+  onLeave: () => void;
+}
+
+// ホストが参加を許可するまで表示する待機画面
+export const WaitingRoomScreen: React.FC<WaitingRoomScreenProps> = ({
+  roomId,
+  userName,
+  stream,
+  isVideoOn,
+  onLeave
+}) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const showVideo = Boolean(stream && stream.getVideoTracks().length > 0 && isVideoOn);
+
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.srcObject = stream;
+    }
+  }, [stream, showVideo]);
+
+  return (
+    <div className="min-h-screen bg-gray-900 flex items-center justify-center p-4">
+      <div className="w-full max-w-md text-center text-white">
+        <div className="relative aspect-video bg-gray-800 rounded-lg overflow-hidden mb-6">
+          {showVideo ? (
+            <video
+              ref={videoRef}
+              autoPlay
+              muted
+              playsInline
+              className="w-full h-full object-cover transform -scale-x-100"
+            />
+          ) : (
+            <div className="w-full h-full flex items-center justify-center">
+              <div className="w-20 h-20 bg-gray-600 rounded-full flex items-center justify-center">
+                <span className="text-white text-2xl font-semibold">
+                  {userName.charAt(0).toUpperCase()}
+                </span>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="w-10 h-10 border-4 border-blue-500 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+        <h2 className="text-xl mb-2">ホストの承認を待っています</h2>
+        <p className="text-gray-400 mb-6">
+          ルーム {roomId} のホストに参加をリクエストしました。許可されると自動的に参加します。
+        </p>
+        <button
+          onClick={onLeave}
+          className="w-full px-6 py-2 bg-gray-600 hover:bg-gray-700 rounded-lg transition-colors flex items-center justify-center"
+        >
+          <PhoneOff size={16} className="mr-2" />
+          キャンセル
+        </button>
+      </div>
+    </div>
+  );
+};
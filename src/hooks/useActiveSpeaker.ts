@@ -0,0 +1,157 @@
+import { MutableRefObject, useEffect, useRef, useState } from 'react';
+import { measureLevel } from './useAudioLevel';
+
+// 自分のタイルは participantId と同じ 'local' で表す
+export const LOCAL_SPEAKER_ID = 'local';
+
+const POLL_INTERVAL_MS = 250;
+// 話し始め・話し終わりで閾値を変え、声の小さな揺れで表示が切り替わらないようにする
+const SPEAKING_ON_LEVEL = 0.06;
+const SPEAKING_OFF_LEVEL = 0.03;
+// 別の人がこの時間ずっと一番大きな声で話していたら話者を切り替える
+const SWITCH_AFTER_MS = 1000;
+// 声が途切れてもこの時間は話し中のままにする
+const RELEASE_AFTER_MS = 800;
+// 直前の値との指数移動平均で瞬間的な雑音をならす
+const SMOOTHING = 0.5;
+
+export interface ActiveSpeaker {
+  // 最後に話していた人。誰も話していなくても直前の話者を保つ
+  id: string | null;
+  isSpeaking: boolean;
+}
+
+// 受信側の audioLevel は 10ms ごとのピーク振幅（0〜1）を元にしている。話し声のピークは RMS のおよそ 3 倍なので、
+// 自分の RMS にこの係数を掛けて同じ尺度にそろえ、同じ閾値で比べられるようにする
+const LOCAL_LEVEL_GAIN = 3;
+
+// 相手の音量は受信側の getStats の audioLevel（0〜1）から読む
+const readRemoteLevel = async (pc: RTCPeerConnection) => {
+  const receiver = pc.getReceivers().find(({ track }) => track?.kind === 'audio');
+  if (!receiver) return 0;
+  const stats = await receiver.getStats();
+  let level = 0;
+  stats.forEach(report => {
+    if (report.type === 'inbound-rtp' && typeof report.audioLevel === 'number') {
+      level = Math.max(level, report.audioLevel);
+    }
+  });
+  return level;
+};
+
+// 自分（Web Audio で解析）と各相手の音量を定期的に比べ、今話している人を決める
+export const useActiveSpeaker = (
+  localStream: MediaStream | null,
+  isAudioOn: boolean,
+  peerConnections: MutableRefObject<Map<string, RTCPeerConnection>>
+) => {
+  const [speaker, setSpeaker] = useState<ActiveSpeaker>({ id: null, isSpeaking: false });
+  const currentRef = useRef(speaker);
+  // AudioContext は通話中ずっと使い回し、マイクの切り替えやミュートではポーリング中に読み直す
+  const localTrackRef = useRef<MediaStreamTrack | undefined>(undefined);
+  localTrackRef.current = isAudioOn ? localStream?.getAudioTracks()[0] : undefined;
+
+  useEffect(() => {
+    const audioContext = new AudioContext();
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 512;
+    const samples = new Uint8Array(analyser.fftSize);
+    let source: { track: MediaStreamTrack; node: MediaStreamAudioSourceNode } | null = null;
+
+    // トラックが差し替わったときだけ解析ノードをつなぎ直す
+    const measureLocal = () => {
+      const track = localTrackRef.current;
+      if (source?.track !== track) {
+        source?.node.disconnect();
+        source = null;
+        if (track) {
+          source = { track, node: audioContext.createMediaStreamSource(new MediaStream([track])) };
+          source.node.connect(analyser);
+        }
+      }
+      return source ? measureLevel(analyser, samples, LOCAL_LEVEL_GAIN) : 0;
+    };
+
+    const smoothed = new Map<string, number>();
+    let candidate: { id: string; since: number } | null = null;
+    let lastLoudAt = 0;
+    let polling = false;
+
+    const poll = async () => {
+      // getStats が遅いときに呼び出しが重ならないようにする
+      if (polling) return;
+      polling = true;
+      try {
+        const levels = new Map<string, number>();
+        levels.set(LOCAL_SPEAKER_ID, measureLocal());
+        await Promise.all(Array.from(peerConnections.current.entries()).map(async ([peerId, pc]) => {
+          levels.set(peerId, await readRemoteLevel(pc).catch(() => 0));
+        }));
+
+        smoothed.forEach((_, id) => {
+          if (!levels.has(id)) smoothed.delete(id);
+        });
+        levels.forEach((level, id) => {
+          smoothed.set(id, (smoothed.get(id) ?? 0) * SMOOTHING + level * (1 - SMOOTHING));
+        });
+
+        const now = Date.now();
+        let loudest: string | null = null;
+        let loudestLevel = SPEAKING_ON_LEVEL;
+        for (const [id, level] of Array.from(smoothed.entries())) {
+          if (level >= loudestLevel) {
+            loudest = id;
+            loudestLevel = level;
+          }
+        }
+
+        const current = currentRef.current;
+        let { id, isSpeaking } = current;
+        // 退出した相手を話者のまま残さない
+        if (id !== null && !smoothed.has(id)) {
+          id = null;
+          isSpeaking = false;
+        }
+        if (loudest !== null && loudest !== id) {
+          // 今の話者が黙っていればすぐに、話している最中なら少し待ってから切り替える
+          if (id === null || !isSpeaking || (candidate?.id === loudest && now - candidate.since >= SWITCH_AFTER_MS)) {
+            id = loudest;
+            isSpeaking = true;
+            lastLoudAt = now;
+            candidate = null;
+          } else if (candidate?.id !== loudest) {
+            candidate = { id: loudest, since: now };
+          }
+        } else {
+          candidate = null;
+        }
+
+        if (id !== null) {
+          const level = smoothed.get(id) ?? 0;
+          if (level >= SPEAKING_ON_LEVEL) {
+            isSpeaking = true;
+            lastLoudAt = now;
+          } else if (level < SPEAKING_OFF_LEVEL && now - lastLoudAt >= RELEASE_AFTER_MS) {
+            isSpeaking = false;
+          }
+        }
+
+        if (id !== current.id || isSpeaking !== current.isSpeaking) {
+          currentRef.current = { id, isSpeaking };
+          setSpeaker(currentRef.current);
+        }
+      } finally {
+        polling = false;
+      }
+    };
+
+    const interval = setInterval(poll, POLL_INTERVAL_MS);
+    return () => {
+      clearInterval(interval);
+      source?.node.disconnect();
+      audioContext.close();
+    };
+  }, [peerConnections]);
+
+  return speaker;
+};
@@ -0,0 +1,53 @@
+import { useEffect, useState } from 'react';
+
+// AnalyserNode の波形から RMS を求め、話し声が 0〜1 の範囲に収まるよう gain 倍する
+export const measureLevel = (analyser: AnalyserNode, samples: Uint8Array, gain = 4) => {
+  analyser.getByteTimeDomainData(samples);
+  let sum = 0;
+  for (const sample of samples) {
+    const normalized = (sample - 128) / 128;
+    sum += normalized * normalized;
+  }
+  return Math.min(1, Math.sqrt(sum / samples.length) * gain);
+};
+
+// マイク入力の音量を 0〜1 で返す（Web Audio の AnalyserNode で RMS を計算）
+export const useAudioLevel = (stream: MediaStream | null) => {
+  const [level, setLevel] = useState(0);
+
+  useEffect(() => {
+    const audioTrack = stream?.getAudioTracks()[0];
+    if (!audioTrack) {
+      setLevel(0);
+      return;
+    }
+
+    const audioContext = new AudioContext();
+    const source = audioContext.createMediaStreamSource(new MediaStream([audioTrack]));
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 512;
+    source.connect(analyser);
+
+    const samples = new Uint8Array(analyser.fftSize);
+    let frameId = 0;
+    let lastLevel = 0;
+
+    const tick = () => {
+      const nextLevel = measureLevel(analyser, samples);
+      if (Math.abs(nextLevel - lastLevel) > 0.01) {
+        lastLevel = nextLevel;
+        setLevel(nextLevel);
+      }
+      frameId = requestAnimationFrame(tick);
+    };
+    tick();
+
+    return () => {
+      cancelAnimationFrame(frameId);
+      source.disconnect();
+      audioContext.close();
+    };
+  }, [stream]);
+
+  return level;
+};
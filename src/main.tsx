@@ -1,9 +1,10 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
+import { logger } from './utils/logger';
 import './index.css';
 
-console.log('Starting VideoMeet application...');
+logger.debug('Starting VideoMeet application');
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -16,4 +17,4 @@ createRoot(rootElement).render(
   </StrictMode>
 );
 
-console.log('VideoMeet application started successfully');
\ No newline at end of file
+logger.debug('VideoMeet application started');
\ No newline at end of file
@@ -0,0 +1,34 @@
+import { AdminRoomsResponse } from '../../shared/protocol';
+import { readApiError } from './rooms';
+
+// 管理用 API はトークンを Bearer として送る。401 のときは呼び出し側でトークンを入れ直させる
+export class AdminApiError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'AdminApiError';
+  }
+}
+
+const adminFetch = async (path: string, token: string, init: RequestInit = {}) => {
+  const response = await fetch(`/api/admin${path}`, {
+    ...init,
+    headers: { Authorization: `Bearer ${token}` }
+  });
+  if (!response.ok) {
+    throw new AdminApiError(await readApiError(response), response.status);
+  }
+  return response;
+};
+
+export const fetchAdminRooms = async (token: string, signal?: AbortSignal): Promise<AdminRoomsResponse> => {
+  const response = await adminFetch('/rooms', token, { signal });
+  return response.json();
+};
+
+export const closeRoomAsAdmin = async (token: string, roomId: string) => {
+  await adminFetch(`/rooms/${encodeURIComponent(roomId)}`, token, { method: 'DELETE' });
+};
+
+export const disconnectSocketAsAdmin = async (token: string, socketId: string) => {
+  await adminFetch(`/sockets/${encodeURIComponent(socketId)}`, token, { method: 'DELETE' });
+};
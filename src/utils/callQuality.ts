@@ -0,0 +1,43 @@
+import { CallQualitySample } from '../../shared/protocol';
+
+// パケットロス率は前回のレポートからの差分で計算するため、累積カウンタを接続ごとに保持する
+export interface LossCounters {
+  packetsLost: number;
+  packetsReceived: number;
+}
+
+export const sampleCallQuality = async (
+  pc: RTCPeerConnection,
+  previous?: LossCounters
+): Promise<{ sample: CallQualitySample; counters: LossCounters }> => {
+  const stats = await pc.getStats();
+  let roundTripTime: number | undefined;
+  let jitter: number | undefined;
+  let packetsLost = 0;
+  let packetsReceived = 0;
+
+  stats.forEach(report => {
+    if (report.type === 'candidate-pair' && report.nominated && report.state === 'succeeded') {
+      if (typeof report.currentRoundTripTime === 'number') {
+        roundTripTime = report.currentRoundTripTime;
+      }
+    }
+    if (report.type === 'inbound-rtp') {
+      packetsLost += report.packetsLost ?? 0;
+      packetsReceived += report.packetsReceived ?? 0;
+      // 音声・映像のうち悪いほうを採用
+      if (typeof report.jitter === 'number') {
+        jitter = Math.max(jitter ?? 0, report.jitter);
+      }
+    }
+  });
+
+  const lost = Math.max(0, packetsLost - (previous?.packetsLost ?? 0));
+  const received = Math.max(0, packetsReceived - (previous?.packetsReceived ?? 0));
+  const packetLoss = lost + received > 0 ? lost / (lost + received) : undefined;
+
+  return {
+    sample: { roundTripTime, jitter, packetLoss },
+    counters: { packetsLost, packetsReceived }
+  };
+};
@@ -0,0 +1,213 @@
+import { IceConfig } from '../../shared/protocol';
+import { LogRecord, REDACTED_FIELDS, getRecentLogs } from './logger';
+import { PeerStats } from './peerStats';
+import { DEFAULT_DEVICES, SelectedDevices, buildMediaConstraints } from './media';
+
+// 「相手が映らない」などの問い合わせに添付してもらう診断情報。
+// 通話中の出来事を記録しておき、ダウンロード時に1つの JSON にまとめる。
+// 表示名は仮名に置き換え、IP アドレスやデバイス名、TURN の認証情報は含めない
+const MAX_SIGNALING_EVENTS = 500;
+const MAX_STATS_SNAPSHOTS = 900;
+
+type CandidateCounts = Record<string, number>;
+
+interface SignalingEvent {
+  // 通話開始からの経過ミリ秒
+  t: number;
+  direction: 'in' | 'out';
+  event: string;
+  peerId?: string;
+}
+
+interface StatsSnapshot {
+  t: number;
+  peerId: string;
+  stats: PeerStats;
+}
+
+export interface DiagnosticsContext {
+  roomId: string;
+  selfUserId: string;
+  userName: string;
+  role: string;
+  connectionStatus: string;
+  participants: { userId: string; userName: string }[];
+  peerConnections: Map<string, RTCPeerConnection>;
+  localStream: MediaStream | null;
+  devices: MediaDeviceInfo[];
+  selectedDevices: SelectedDevices;
+  iceConfig: IceConfig;
+  forceRelay: boolean;
+}
+
+// candidate 文字列の8番目の項目が候補の種類（host / srflx / prflx / relay）
+export const candidateTypeOf = (candidate?: string) => candidate?.split(' ')[7] || 'unknown';
+
+// 相手を特定できる項目を含まないよう、イベントの内容は記録しない
+const PEER_ID_FIELDS = ['targetUserId', 'callerUserId', 'answererUserId', 'senderUserId', 'userId'];
+
+const peerIdOf = (payload: unknown) => {
+  if (!payload || typeof payload !== 'object') return undefined;
+  const field = PEER_ID_FIELDS.find(key => typeof (payload as Record<string, unknown>)[key] === 'string');
+  return field ? (payload as Record<string, string>)[field] : undefined;
+};
+
+const pushLimited = <T>(list: T[], item: T, limit: number) => {
+  list.push(item);
+  if (list.length > limit) {
+    list.shift();
+  }
+};
+
+const describeEnvironment = () => {
+  const connection = (navigator as Navigator & { connection?: { effectiveType?: string; downlink?: number; rtt?: number } }).connection;
+  return {
+    userAgent: navigator.userAgent,
+    platform: navigator.platform,
+    language: navigator.language,
+    online: navigator.onLine,
+    hardwareConcurrency: navigator.hardwareConcurrency,
+    screen: { width: screen.width, height: screen.height, devicePixelRatio: window.devicePixelRatio },
+    connection: connection && {
+      effectiveType: connection.effectiveType,
+      downlink: connection.downlink,
+      rtt: connection.rtt
+    }
+  };
+};
+
+// デバイス名には持ち主の名前が入ることがあるため、種類ごとの台数と設定値だけを残す
+const describeMedia = (context: DiagnosticsContext) => {
+  const deviceCounts: Record<string, number> = {};
+  context.devices.forEach(device => {
+    deviceCounts[device.kind] = (deviceCounts[device.kind] ?? 0) + 1;
+  });
+  const selected = Object.fromEntries(
+    Object.entries(context.selectedDevices).map(([kind, deviceId]) => [kind, deviceId ? 'selected' : 'default'])
+  );
+  const tracks = (context.localStream?.getTracks() ?? []).map(track => {
+    const settings: MediaTrackSettings = { ...track.getSettings() };
+    delete settings.deviceId;
+    delete settings.groupId;
+    return {
+      kind: track.kind,
+      enabled: track.enabled,
+      muted: track.muted,
+      readyState: track.readyState,
+      settings
+    };
+  });
+  return {
+    deviceCounts,
+    selectedDevices: selected,
+    // deviceId の指定を除いた要求値
+    constraints: buildMediaConstraints(DEFAULT_DEVICES),
+    tracks
+  };
+};
+
+const describeIceConfig = (config: IceConfig, forceRelay: boolean) => ({
+  iceServers: config.iceServers.map(server => ({
+    urls: server.urls,
+    hasCredential: Boolean(server.credential)
+  })),
+  iceTransportPolicy: forceRelay ? 'relay' : config.iceTransportPolicy,
+  forceRelay,
+  expiresAt: config.expiresAt && new Date(config.expiresAt).toISOString()
+});
+
+export const createDiagnosticsRecorder = () => {
+  const startedAt = Date.now();
+  const signaling: SignalingEvent[] = [];
+  const statsTimeline: StatsSnapshot[] = [];
+  const candidates = new Map<string, { local: CandidateCounts; remote: CandidateCounts }>();
+
+  const elapsed = () => Date.now() - startedAt;
+
+  const recordCandidate = (peerId: string, side: 'local' | 'remote', candidate?: string) => {
+    let counts = candidates.get(peerId);
+    if (!counts) {
+      counts = { local: {}, remote: {} };
+      candidates.set(peerId, counts);
+    }
+    const type = candidateTypeOf(candidate);
+    counts[side][type] = (counts[side][type] ?? 0) + 1;
+  };
+
+  const build = (context: DiagnosticsContext) => {
+    // 自分は self、相手は参加順に participant-1, 2, ... と呼ぶ
+    const pseudonyms = new Map<string, string>([[context.userName, 'self']]);
+    context.participants.forEach((participant, index) => {
+      if (!pseudonyms.has(participant.userName)) {
+        pseudonyms.set(participant.userName, `participant-${index + 1}`);
+      }
+    });
+    const anonymize = (record: LogRecord): LogRecord => {
+      const copy = { ...record };
+      REDACTED_FIELDS.forEach(field => {
+        if (typeof copy[field] === 'string' && copy[field] !== '[redacted]') {
+          copy[field] = pseudonyms.get(copy[field] as string) ?? '[redacted]';
+        }
+      });
+      return copy;
+    };
+
+    const peers = context.participants.map(participant => {
+      const pc = context.peerConnections.get(participant.userId);
+      return {
+        peerId: participant.userId,
+        name: pseudonyms.get(participant.userName),
+        connectionState: pc?.connectionState ?? 'none',
+        iceConnectionState: pc?.iceConnectionState,
+        iceGatheringState: pc?.iceGatheringState,
+        signalingState: pc?.signalingState,
+        candidates: candidates.get(participant.userId) ?? { local: {}, remote: {} }
+      };
+    });
+
+    return {
+      format: 'videomeet-diagnostics',
+      version: 1,
+      generatedAt: new Date().toISOString(),
+      callStartedAt: new Date(startedAt).toISOString(),
+      call: {
+        roomId: context.roomId,
+        selfUserId: context.selfUserId,
+        role: context.role,
+        connectionStatus: context.connectionStatus
+      },
+      environment: describeEnvironment(),
+      media: describeMedia(context),
+      ice: describeIceConfig(context.iceConfig, context.forceRelay),
+      peers,
+      stats: statsTimeline,
+      signaling,
+      logs: getRecentLogs().map(anonymize)
+    };
+  };
+
+  return {
+    recordSignaling: (direction: 'in' | 'out', event: string, payload?: unknown) => {
+      pushLimited(signaling, { t: elapsed(), direction, event, peerId: peerIdOf(payload) }, MAX_SIGNALING_EVENTS);
+    },
+    recordLocalCandidate: (peerId: string, candidate?: string) => recordCandidate(peerId, 'local', candidate),
+    recordRemoteCandidate: (peerId: string, candidate?: string) => recordCandidate(peerId, 'remote', candidate),
+    recordStats: (peerId: string, stats: PeerStats) => {
+      pushLimited(statsTimeline, { t: elapsed(), peerId, stats }, MAX_STATS_SNAPSHOTS);
+    },
+    build
+  };
+};
+
+export type DiagnosticsRecorder = ReturnType<typeof createDiagnosticsRecorder>;
+
+export const downloadDiagnostics = (bundle: ReturnType<DiagnosticsRecorder['build']>) => {
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `videomeet-diagnostics-${bundle.call.roomId}-${bundle.generatedAt.replace(/[:.]/g, '-')}.json`;
+  link.click();
+  // クリック直後に解放するとダウンロードが始まらないブラウザがある
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
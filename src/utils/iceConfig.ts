@@ -0,0 +1,61 @@
+import { IceConfig } from '../../shared/protocol';
+import { readApiError } from './rooms';
+import { logger } from './logger';
+
+// ICE サーバーの設定はサーバーから取得する。TURN の認証情報には有効期限があるため、期限が近づいたら取り直す
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+// サーバーから取得できなかったときの代替（STUN のみ。TURN が必要なネットワークではつながらない）
+export const FALLBACK_ICE_CONFIG: IceConfig = {
+  iceServers: [{ urls: 'stun:stun.l.google.com:19302' }],
+  iceTransportPolicy: 'all',
+  expiresAt: null
+};
+
+// 強制リレーの設定はブラウザごとに保存し、次回以降の通話にも使う
+const FORCE_RELAY_KEY = 'videomeet:force-relay';
+
+export const isForceRelayEnabled = () => {
+  try {
+    return localStorage.getItem(FORCE_RELAY_KEY) === 'true';
+  } catch {
+    return false;
+  }
+};
+
+export const setForceRelayEnabled = (enabled: boolean) => {
+  try {
+    if (enabled) {
+      localStorage.setItem(FORCE_RELAY_KEY, 'true');
+    } else {
+      localStorage.removeItem(FORCE_RELAY_KEY);
+    }
+  } catch (error) {
+    logger.warn('Failed to store force relay setting', { error });
+  }
+};
+
+export const loadIceConfig = async (): Promise<IceConfig> => {
+  try {
+    const response = await fetch('/api/ice-config', { cache: 'no-store' });
+    if (!response.ok) {
+      throw new Error(await readApiError(response));
+    }
+    return await response.json();
+  } catch (error) {
+    logger.warn('Failed to load ICE configuration, using STUN only', { error });
+    return FALLBACK_ICE_CONFIG;
+  }
+};
+
+export const needsRefresh = (config: IceConfig) =>
+  config.expiresAt !== null && config.expiresAt - Date.now() < REFRESH_MARGIN_MS;
+
+// 既存の接続に setConfiguration するときも同じ値になるよう、ICE 以外の設定もここで揃える
+export const toRTCConfiguration = (config: IceConfig, forceRelay: boolean): RTCConfiguration => ({
+  iceServers: config.iceServers,
+  iceCandidatePoolSize: 10,
+  iceTransportPolicy: forceRelay ? 'relay' : config.iceTransportPolicy,
+  bundlePolicy: 'max-bundle',
+  rtcpMuxPolicy: 'require'
+});
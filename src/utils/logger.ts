@@ -0,0 +1,93 @@
+// レベル付きのクライアントロガー。開発ビルドでは debug 以上、本番ビルドでは既定で何も出力しない。
+// 本番でも localStorage の videomeet:log-level（debug / info / warn / error）か
+// ビルド時の VITE_LOG_LEVEL で出力を有効にできる。
+// 表示名は videomeet:log-names を "true" にしない限り伏せ字にする
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+type LogFields = Record<string, unknown>;
+
+export interface LogRecord {
+  time: string;
+  level: LogLevel;
+  msg: string;
+  [field: string]: unknown;
+}
+
+export interface Logger {
+  debug: (message: string, fields?: LogFields) => void;
+  info: (message: string, fields?: LogFields) => void;
+  warn: (message: string, fields?: LogFields) => void;
+  error: (message: string, fields?: LogFields) => void;
+  child: (bindings: LogFields | (() => LogFields)) => Logger;
+}
+
+const LEVELS: Record<LogLevel | 'silent', number> = { debug: 10, info: 20, warn: 30, error: 40, silent: 100 };
+
+// 診断情報のダウンロード時にも同じ項目を仮名に置き換える
+export const REDACTED_FIELDS = new Set(['userName', 'targetName', 'senderName', 'ownerName']);
+
+// 出力レベルに関係なく直近の記録を保持しておき、不具合調査のときに取り出せるようにする
+const MAX_RECENT_RECORDS = 1000;
+const recentRecords: LogRecord[] = [];
+
+const readSetting = (key: string) => {
+  try {
+    return localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+};
+
+const resolveMinLevel = () => {
+  const configured = readSetting('videomeet:log-level') ?? import.meta.env.VITE_LOG_LEVEL;
+  if (configured && configured in LEVELS) {
+    return LEVELS[configured as LogLevel];
+  }
+  return import.meta.env.PROD ? LEVELS.silent : LEVELS.debug;
+};
+
+const minLevel = resolveMinLevel();
+const logUserNames = readSetting('videomeet:log-names') === 'true';
+
+const serialize = (value: unknown) => {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message };
+  }
+  return value;
+};
+
+const buildRecord = (level: LogLevel, message: string, fields: LogFields): LogRecord => {
+  const record: LogRecord = { time: new Date().toISOString(), level, msg: message };
+  Object.entries(fields).forEach(([key, value]) => {
+    if (value === undefined) return;
+    record[key] = REDACTED_FIELDS.has(key) && !logUserNames ? '[redacted]' : serialize(value);
+  });
+  return record;
+};
+
+const createLogger = (bindings: LogFields | (() => LogFields) = {}): Logger => {
+  const resolve = typeof bindings === 'function' ? bindings : () => bindings;
+  const log = (level: LogLevel) => (message: string, fields: LogFields = {}) => {
+    const record = buildRecord(level, message, { ...resolve(), ...fields });
+    recentRecords.push(record);
+    if (recentRecords.length > MAX_RECENT_RECORDS) {
+      recentRecords.shift();
+    }
+    if (LEVELS[level] < minLevel) return;
+    console[level](`[${record.time}] ${message}`, record);
+  };
+  return {
+    debug: log('debug'),
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error'),
+    child: (extra) => createLogger(() => ({
+      ...resolve(),
+      ...(typeof extra === 'function' ? extra() : extra)
+    }))
+  };
+};
+
+export const logger = createLogger();
+
+export const getRecentLogs = (): readonly LogRecord[] => recentRecords;
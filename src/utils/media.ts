@@ -0,0 +1,81 @@
+import { logger } from './logger';
+
+// 高品質ビデオ設定（カメラ用）
+export const HIGH_QUALITY_VIDEO_CONSTRAINTS = {
+  width: { ideal: 1280, max: 1920 },
+  height: { ideal: 720, max: 1080 },
+  frameRate: { ideal: 30, max: 30 }
+};
+
+// 超高品質画面共有設定
+export const ULTRA_HIGH_SCREEN_CONSTRAINTS = {
+  width: { ideal: 1920, max: 3840 },
+  height: { ideal: 1080, max: 2160 },
+  frameRate: { ideal: 30, max: 60 }
+};
+
+export const AUDIO_CONSTRAINTS = {
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  sampleRate: 48000,
+  channelCount: 2
+};
+
+export interface SelectedDevices {
+  audioInput: string;
+  videoInput: string;
+  audioOutput: string;
+}
+
+export const DEFAULT_DEVICES: SelectedDevices = {
+  audioInput: '',
+  videoInput: '',
+  audioOutput: ''
+};
+
+// ロビーで選んだ設定を通話開始時に引き継ぐ
+export interface JoinMediaOptions {
+  isVideoOn: boolean;
+  isAudioOn: boolean;
+  devices: SelectedDevices;
+}
+
+const deviceConstraint = (deviceId: string) => (deviceId ? { deviceId: { exact: deviceId } } : {});
+
+export const buildVideoConstraints = (deviceId: string): MediaTrackConstraints => ({
+  ...HIGH_QUALITY_VIDEO_CONSTRAINTS,
+  ...deviceConstraint(deviceId)
+});
+
+export const buildAudioConstraints = (deviceId: string): MediaTrackConstraints => ({
+  ...AUDIO_CONSTRAINTS,
+  ...deviceConstraint(deviceId)
+});
+
+export const buildMediaConstraints = (devices: SelectedDevices): MediaStreamConstraints => ({
+  video: buildVideoConstraints(devices.videoInput),
+  audio: buildAudioConstraints(devices.audioInput)
+});
+
+// カメラ・マイクが使えなくても参加できるよう、段階的に取得を試みる
+// 何も取得できなかった場合はトラックのない MediaStream を返す（視聴のみ）
+export const acquireLocalMedia = async (devices: SelectedDevices): Promise<MediaStream> => {
+  const attempts: MediaStreamConstraints[] = [
+    buildMediaConstraints(devices),
+    // 選択したデバイスが取り外されている場合は既定のデバイスで再試行
+    buildMediaConstraints(DEFAULT_DEVICES),
+    { audio: buildAudioConstraints('') },
+    { video: buildVideoConstraints('') }
+  ];
+
+  for (const constraints of attempts) {
+    try {
+      return await navigator.mediaDevices.getUserMedia(constraints);
+    } catch (error) {
+      logger.warn('getUserMedia failed, trying fallback', { error });
+    }
+  }
+
+  return new MediaStream();
+};
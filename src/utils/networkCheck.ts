@@ -0,0 +1,239 @@
+import { io } from 'socket.io-client';
+import { AUDIO_CONSTRAINTS, HIGH_QUALITY_VIDEO_CONSTRAINTS } from './media';
+import { SignalingSocket, onServerEvent } from './signaling';
+import { loadIceConfig, toRTCConfiguration } from './iceConfig';
+import { candidateTypeOf } from './diagnostics';
+import { formatBitrate } from './peerStats';
+import { logger } from './logger';
+
+// ルームに参加せずに行う通話前のセルフテスト。各項目を pass / warn / fail で評価する
+export type CheckStatus = 'pass' | 'warn' | 'fail';
+
+export interface CheckResult {
+  status: CheckStatus;
+  detail: string;
+}
+
+const SIGNALING_TIMEOUT_MS = 10000;
+const SIGNALING_SAMPLES = 5;
+const ICE_GATHERING_TIMEOUT_MS = 10000;
+// 送信ビットレートが立ち上がるまで待ってから測る
+const LOOPBACK_WARMUP_MS = 4000;
+const LOOPBACK_MEASURE_MS = 4000;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const describeMediaError = (error: unknown, device: string) => {
+  const name = error instanceof DOMException ? error.name : '';
+  if (name === 'NotAllowedError') return `Permission to use the ${device} was denied`;
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') return `No ${device} found`;
+  if (name === 'NotReadableError') return `The ${device} is in use by another application`;
+  return `Could not start the ${device}`;
+};
+
+const captureTrack = async (constraints: MediaStreamConstraints) => {
+  const stream = await navigator.mediaDevices.getUserMedia(constraints);
+  return stream.getTracks()[0];
+};
+
+// 通話と同じ制約でカメラ・マイクを取得する。取得したトラックはビットレート測定に使い回すので、呼び出し側で止める
+export const checkMedia = async () => {
+  const tracks: MediaStreamTrack[] = [];
+  let camera: CheckResult;
+  let microphone: CheckResult;
+
+  try {
+    const track = await captureTrack({ video: HIGH_QUALITY_VIDEO_CONSTRAINTS });
+    tracks.push(track);
+    const { width, height, frameRate } = track.getSettings();
+    const format = `${width}×${height} at ${Math.round(frameRate ?? 0)} fps`;
+    camera = (height ?? 0) >= HIGH_QUALITY_VIDEO_CONSTRAINTS.height.ideal
+      ? { status: 'pass', detail: format }
+      : { status: 'warn', detail: `${format}. Video will be sent at lower than HD quality` };
+  } catch (error) {
+    logger.warn('Camera check failed', { error });
+    camera = { status: 'fail', detail: describeMediaError(error, 'camera') };
+  }
+
+  try {
+    const track = await captureTrack({ audio: AUDIO_CONSTRAINTS });
+    tracks.push(track);
+    const { sampleRate, echoCancellation } = track.getSettings();
+    const format = sampleRate ? `${sampleRate / 1000} kHz` : 'Working';
+    microphone = echoCancellation === false
+      ? { status: 'warn', detail: `${format}. Echo cancellation is not available; use headphones` }
+      : { status: 'pass', detail: format };
+  } catch (error) {
+    logger.warn('Microphone check failed', { error });
+    microphone = { status: 'fail', detail: describeMediaError(error, 'microphone') };
+  }
+
+  return { camera, microphone, stream: new MediaStream(tracks) };
+};
+
+// 通話中のハートビートと同じ ping / pong で往復時間を測り、中央値で評価する
+export const checkSignalingLatency = () => new Promise<CheckResult>(resolve => {
+  const socket: SignalingSocket = io(window.location.origin, {
+    transports: ['websocket', 'polling'],
+    forceNew: true,
+    reconnection: false,
+    timeout: SIGNALING_TIMEOUT_MS
+  });
+  const samples: number[] = [];
+  let sentAt = 0;
+
+  const finish = (result: CheckResult) => {
+    clearTimeout(timer);
+    socket.disconnect();
+    resolve(result);
+  };
+  const timer = setTimeout(() => {
+    finish({ status: 'fail', detail: 'The server did not respond in time' });
+  }, SIGNALING_TIMEOUT_MS);
+
+  const sendPing = () => {
+    sentAt = performance.now();
+    socket.emit('ping');
+  };
+
+  socket.on('connect', sendPing);
+  socket.on('connect_error', (error) => {
+    logger.warn('Signaling check could not connect', { error });
+    finish({ status: 'fail', detail: 'Could not connect to the server' });
+  });
+  onServerEvent(socket, 'pong', () => {
+    samples.push(performance.now() - sentAt);
+    if (samples.length < SIGNALING_SAMPLES) {
+      sendPing();
+      return;
+    }
+    const median = Math.round(samples.sort((a, b) => a - b)[Math.floor(samples.length / 2)]);
+    const detail = `${median} ms round trip`;
+    if (median < 150) {
+      finish({ status: 'pass', detail });
+    } else if (median < 400) {
+      finish({ status: 'warn', detail: `${detail}. Joining and reconnecting may be slow` });
+    } else {
+      finish({ status: 'fail', detail: `${detail}. The connection to the server is too slow` });
+    }
+  });
+});
+
+// データチャネルだけのオファーを作り、集まった ICE 候補の種類を返す
+const gatherCandidateTypes = async (configuration: RTCConfiguration) => {
+  const pc = new RTCPeerConnection(configuration);
+  const types = new Set<string>();
+  try {
+    pc.createDataChannel('network-check');
+    const gathered = new Promise<void>(resolve => {
+      const timer = setTimeout(resolve, ICE_GATHERING_TIMEOUT_MS);
+      pc.onicecandidate = (event) => {
+        if (event.candidate) {
+          types.add(candidateTypeOf(event.candidate.candidate));
+        } else {
+          clearTimeout(timer);
+          resolve();
+        }
+      };
+    });
+    await pc.setLocalDescription(await pc.createOffer());
+    await gathered;
+  } finally {
+    pc.close();
+  }
+  return types;
+};
+
+const hasUrl = (urls: string | string[], scheme: RegExp) => (Array.isArray(urls) ? urls : [urls]).some(url => scheme.test(url));
+
+// 通話と同じ ICE 設定（サーバーから取得した STUN / TURN）で候補を集め、
+// srflx が取れれば STUN、relay が取れれば TURN が使えると判断する
+export const checkIceServers = async (): Promise<{ stun: CheckResult; turn: CheckResult }> => {
+  const config = await loadIceConfig();
+  const hasStun = config.iceServers.some(server => hasUrl(server.urls, /^stun:/));
+  const hasTurn = config.iceServers.some(server => hasUrl(server.urls, /^turns?:/));
+
+  let types = new Set<string>();
+  try {
+    types = await gatherCandidateTypes(toRTCConfiguration(config, false));
+  } catch (error) {
+    logger.warn('ICE check failed', { error });
+  }
+
+  let stun: CheckResult;
+  if (types.has('srflx')) {
+    stun = { status: 'pass', detail: 'Your public address was discovered' };
+  } else if (!hasStun) {
+    stun = { status: 'warn', detail: 'No STUN server is configured' };
+  } else {
+    stun = { status: 'warn', detail: 'STUN is blocked on this network. Calls may need the relay' };
+  }
+
+  let turn: CheckResult;
+  if (types.has('relay')) {
+    turn = { status: 'pass', detail: 'The relay server is reachable' };
+  } else if (!hasTurn) {
+    turn = { status: 'warn', detail: 'No relay server is configured. Calls from restrictive networks may fail' };
+  } else {
+    turn = { status: 'fail', detail: 'The relay server could not be reached' };
+  }
+
+  return { stun, turn };
+};
+
+const readBytesSent = async (pc: RTCPeerConnection) => {
+  const stats = await pc.getStats();
+  let bytes = 0;
+  stats.forEach(report => {
+    if (report.type === 'outbound-rtp' && report.kind === 'video') {
+      bytes += report.bytesSent ?? 0;
+    }
+  });
+  return { bytes, time: performance.now() };
+};
+
+// 同じページ内の2つのピア接続でカメラ映像を送り合い、送信できるビットレートを見積もる。
+// ネットワークは通らないため、測れるのは端末のエンコード性能と帯域推定の上限まで
+export const measureLoopbackBitrate = async (track?: MediaStreamTrack): Promise<CheckResult> => {
+  if (!track) {
+    return { status: 'warn', detail: 'Skipped because no camera is available' };
+  }
+
+  const sender = new RTCPeerConnection();
+  const receiver = new RTCPeerConnection();
+  try {
+    sender.onicecandidate = (event) => {
+      if (event.candidate) receiver.addIceCandidate(event.candidate).catch(() => undefined);
+    };
+    receiver.onicecandidate = (event) => {
+      if (event.candidate) sender.addIceCandidate(event.candidate).catch(() => undefined);
+    };
+    sender.addTrack(track);
+
+    await sender.setLocalDescription(await sender.createOffer());
+    await receiver.setRemoteDescription(sender.localDescription!);
+    await receiver.setLocalDescription(await receiver.createAnswer());
+    await sender.setRemoteDescription(receiver.localDescription!);
+
+    await wait(LOOPBACK_WARMUP_MS);
+    const start = await readBytesSent(sender);
+    await wait(LOOPBACK_MEASURE_MS);
+    const end = await readBytesSent(sender);
+    const bitrate = (end.bytes - start.bytes) * 8 / ((end.time - start.time) / 1000);
+
+    const detail = `About ${formatBitrate(bitrate)} of video`;
+    if (bitrate >= 1500000) {
+      return { status: 'pass', detail };
+    }
+    if (bitrate >= 500000) {
+      return { status: 'warn', detail: `${detail}. Video may be sent below HD quality` };
+    }
+    return { status: 'fail', detail: `${detail}. Video will be low quality or may stall` };
+  } catch (error) {
+    logger.warn('Loopback bitrate check failed', { error });
+    return { status: 'fail', detail: 'Could not send video through a test connection' };
+  } finally {
+    sender.close();
+    receiver.close();
+  }
+};
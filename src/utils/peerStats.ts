@@ -0,0 +1,130 @@
+// 相手ごとの接続品質。タイルの電波アイコンと詳細表示に使う
+export type CandidateType = 'host' | 'srflx' | 'prflx' | 'relay';
+
+export interface PeerStats {
+  // 秒単位（getStats の値そのまま）
+  roundTripTime?: number;
+  jitter?: number;
+  // 前回の取得からの損失率（0〜1）
+  packetLoss?: number;
+  // bps
+  sendBitrate?: number;
+  receiveBitrate?: number;
+  // 相手から受信している映像
+  frameWidth?: number;
+  frameHeight?: number;
+  framesPerSecond?: number;
+  candidateType?: CandidateType;
+}
+
+// ビットレートと損失率は差分で計算するため、累積値を接続ごとに保持する
+export interface PeerStatsCounters {
+  timestamp: number;
+  bytesSent: number;
+  bytesReceived: number;
+  packetsLost: number;
+  packetsReceived: number;
+}
+
+// 選択中の候補ペアを探す。transport の selectedCandidatePairId がないブラウザでは nominated なペアを使う
+const findSelectedPair = (stats: RTCStatsReport) => {
+  let selected: RTCIceCandidatePairStats | undefined;
+  stats.forEach(report => {
+    if (report.type === 'transport' && report.selectedCandidatePairId) {
+      selected = stats.get(report.selectedCandidatePairId);
+    }
+  });
+  if (!selected) {
+    stats.forEach(report => {
+      if (report.type === 'candidate-pair' && report.nominated && report.state === 'succeeded') {
+        selected = report;
+      }
+    });
+  }
+  return selected;
+};
+
+// どちらか一方でも TURN を経由していればリレー接続とみなす
+const readCandidateType = (stats: RTCStatsReport, pair: RTCIceCandidatePairStats): CandidateType | undefined => {
+  const local = stats.get(pair.localCandidateId);
+  const remote = stats.get(pair.remoteCandidateId);
+  if (local?.candidateType === 'relay' || remote?.candidateType === 'relay') {
+    return 'relay';
+  }
+  return local?.candidateType;
+};
+
+export const samplePeerStats = async (
+  pc: RTCPeerConnection,
+  previous?: PeerStatsCounters
+): Promise<{ stats: PeerStats; counters: PeerStatsCounters }> => {
+  const report = await pc.getStats();
+  const result: PeerStats = {};
+  const counters: PeerStatsCounters = {
+    timestamp: Date.now(),
+    bytesSent: 0,
+    bytesReceived: 0,
+    packetsLost: 0,
+    packetsReceived: 0
+  };
+
+  const pair = findSelectedPair(report);
+  if (pair) {
+    if (typeof pair.currentRoundTripTime === 'number') {
+      result.roundTripTime = pair.currentRoundTripTime;
+    }
+    result.candidateType = readCandidateType(report, pair);
+  }
+
+  report.forEach(entry => {
+    if (entry.type === 'outbound-rtp') {
+      counters.bytesSent += entry.bytesSent ?? 0;
+    }
+    if (entry.type === 'inbound-rtp') {
+      counters.bytesReceived += entry.bytesReceived ?? 0;
+      counters.packetsLost += entry.packetsLost ?? 0;
+      counters.packetsReceived += entry.packetsReceived ?? 0;
+      // 音声・映像のうち悪いほうを採用
+      if (typeof entry.jitter === 'number') {
+        result.jitter = Math.max(result.jitter ?? 0, entry.jitter);
+      }
+      if (entry.kind === 'video') {
+        result.frameWidth = entry.frameWidth;
+        result.frameHeight = entry.frameHeight;
+        result.framesPerSecond = entry.framesPerSecond;
+      }
+    }
+  });
+
+  if (previous) {
+    const seconds = (counters.timestamp - previous.timestamp) / 1000;
+    if (seconds > 0) {
+      result.sendBitrate = Math.max(0, counters.bytesSent - previous.bytesSent) * 8 / seconds;
+      result.receiveBitrate = Math.max(0, counters.bytesReceived - previous.bytesReceived) * 8 / seconds;
+    }
+    const lost = Math.max(0, counters.packetsLost - previous.packetsLost);
+    const received = Math.max(0, counters.packetsReceived - previous.packetsReceived);
+    if (lost + received > 0) {
+      result.packetLoss = lost / (lost + received);
+    }
+  }
+
+  return { stats: result, counters };
+};
+
+// 電波アイコンの本数（0〜4）。最も悪い指標で決める
+export const getQualityLevel = (stats?: PeerStats) => {
+  if (!stats || stats.roundTripTime === undefined) return 0;
+  const rtt = stats.roundTripTime;
+  const loss = stats.packetLoss ?? 0;
+  const jitter = stats.jitter ?? 0;
+  if (loss > 0.1 || rtt > 0.5) return 1;
+  if (loss > 0.05 || rtt > 0.3 || jitter > 0.05) return 2;
+  if (loss > 0.02 || rtt > 0.15 || jitter > 0.03) return 3;
+  return 4;
+};
+
+export const formatBitrate = (bps?: number) => {
+  if (bps === undefined) return '-';
+  return bps >= 1000000 ? `${(bps / 1000000).toFixed(1)} Mbps` : `${Math.round(bps / 1000)} kbps`;
+};
@@ -0,0 +1,36 @@
+import { ApiError, CreateRoomRequest, CreateRoomResponse, RoomInfo } from '../../shared/protocol';
+
+// ルームの作成と存在確認はソケット接続前に REST API で行う
+export const readApiError = async (response: Response) => {
+  try {
+    const body: ApiError = await response.json();
+    return body.error;
+  } catch {
+    return response.statusText;
+  }
+};
+
+export const createRoom = async (request: CreateRoomRequest): Promise<RoomInfo> => {
+  const response = await fetch('/api/rooms', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request)
+  });
+  if (!response.ok) {
+    throw new Error(await readApiError(response));
+  }
+  const body: CreateRoomResponse = await response.json();
+  return body.room;
+};
+
+// ルームが存在しなければ null を返す
+export const lookupRoom = async (roomId: string, signal?: AbortSignal): Promise<RoomInfo | null> => {
+  const response = await fetch(`/api/rooms/${encodeURIComponent(roomId)}`, { signal });
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(await readApiError(response));
+  }
+  return response.json();
+};
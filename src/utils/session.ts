@@ -0,0 +1,46 @@
+import { logger } from './logger';
+
+// ページの再読み込みや一時的な切断のあとも同じ参加者として復帰できるよう、
+// ルームごとのセッショントークンを sessionStorage に保存する。参加者IDはサーバーが割り当てる
+export interface CallSession {
+  sessionToken: string;
+}
+
+const storageKey = (roomId: string) => `videomeet:session:${roomId}`;
+
+const randomToken = () => {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const loadSession = (roomId: string): CallSession => {
+  try {
+    const stored = sessionStorage.getItem(storageKey(roomId));
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (typeof parsed.sessionToken === 'string') {
+        return { sessionToken: parsed.sessionToken };
+      }
+    }
+  } catch (error) {
+    logger.warn('Failed to restore call session', { roomId, error });
+  }
+
+  const session: CallSession = { sessionToken: randomToken() };
+  try {
+    sessionStorage.setItem(storageKey(roomId), JSON.stringify(session));
+  } catch (error) {
+    logger.warn('Failed to store call session', { roomId, error });
+  }
+  return session;
+};
+
+// 自分で退出したときはセッションを破棄し、次回は新しい参加者として入る
+export const clearSession = (roomId: string) => {
+  try {
+    sessionStorage.removeItem(storageKey(roomId));
+  } catch (error) {
+    logger.warn('Failed to clear call session', { roomId, error });
+  }
+};
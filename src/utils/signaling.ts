@@ -0,0 +1,56 @@
+import { Socket } from 'socket.io-client';
+import {
+  AckResponses,
+  ClientToServerEvents,
+  IceCandidate,
+  ServerToClientEvents,
+  SessionDescription,
+  validateAck,
+  validateServerEvent
+} from '../../shared/protocol';
+import { logger } from './logger';
+
+export type SignalingSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+type ServerEventName = keyof ServerToClientEvents;
+
+// サーバーからのイベントをスキーマで検証してからハンドラに渡す
+export const onServerEvent = <E extends ServerEventName>(
+  socket: SignalingSocket,
+  event: E,
+  handler: ServerToClientEvents[E]
+) => {
+  const listener = (payload?: unknown) => {
+    const result = validateServerEvent(event, payload);
+    if (!result.ok) {
+      logger.warn(`Ignoring malformed "${event}" event`, { error: result.error });
+      return;
+    }
+    (handler as (payload: unknown) => void)(result.value);
+  };
+  // 検証はこの中で行うので、登録自体は型なしのソケットとして扱う
+  (socket as Socket).on(event as string, listener);
+};
+
+// acknowledgement で返ってきた応答を検証する。不正な応答は null
+export const parseAck = <E extends keyof AckResponses>(event: E, response: unknown): AckResponses[E] | null => {
+  const result = validateAck(event, response);
+  if (!result.ok) {
+    logger.warn(`Ignoring malformed "${event}" acknowledgement`, { error: result.error });
+    return null;
+  }
+  return result.value;
+};
+
+// RTCSessionDescription / RTCIceCandidate をプロトコルの形に変換する
+export const toSessionDescription = (description: RTCSessionDescription | null): SessionDescription | null => {
+  if (!description || description.type === 'rollback') return null;
+  return { type: description.type, sdp: description.sdp };
+};
+
+export const toIceCandidate = (candidate: RTCIceCandidate): IceCandidate => ({
+  candidate: candidate.candidate,
+  sdpMid: candidate.sdpMid,
+  sdpMLineIndex: candidate.sdpMLineIndex,
+  usernameFragment: candidate.usernameFragment
+});